@@ -1,15 +1,20 @@
-// Audio Engine - Simple sine wave synthesis
-
-import { config } from './engine';
+// Audio Engine - Everything that sounds, and the microphone
+// Notes and chords go through one voice manager (synth.ts) and the tension
+// bus (sonify.ts), or out to a MIDI output, or both. The mic side detects
+// pitch and chords from what's played into it.
+
+import { config, getTotalTension, type State } from './engine';
+import { sendMidiNote, sendNoteOn, sendNoteOff, type MidiOutPort } from './midi';
+import { voiceChord, voicingSettings } from './voicing';
+import { tuningSettings } from './tuning';
+import { degreeFrequency, semitoneFrequency, degreeToMidiNote, keyRootNote, keyPitchClass } from './pitch';
+import { createSynth, sine, type Synth, type Instrument } from './synth';
+import { createTensionBus, tensionDetune, sonificationSettings, type TensionBus, type TensionLevel } from './sonify';
 import { PitchDetector } from 'pitchy';
 import * as tf from '@tensorflow/tfjs';
 
-// Essentia.js for advanced chord detection
-// @ts-ignore - essentia.js types are complex
-import Essentia from 'essentia.js/dist/essentia.js-core.es.js';
-// @ts-ignore
-import { EssentiaWASM } from 'essentia.js/dist/essentia-wasm.es.js';
-
+// Essentia.js for advanced chord detection (loaded by initEssentia - its WASM
+// build runs as soon as it's imported, so nothing else waits for it)
 let essentia: any = null;
 let essentiaReady = false;
 
@@ -45,6 +50,12 @@ const CHORD_PATTERNS: { degrees: number[]; name: string; quality: string }[] = [
   { degrees: [5, 7, 2, 4], name: 'V7', quality: '7' },
 ];
 
+// Degrees of a named chord (root first), e.g. 'V7' → [5, 7, 2, 4]
+export function getChordDegrees(name: string): number[] | null {
+  const pattern = CHORD_PATTERNS.find(p => p.name === name);
+  return pattern ? pattern.degrees : null;
+}
+
 function matchDegreePattern(degrees: number[]): { name: string; quality: string } | null {
   if (degrees.length === 0) return null;
 
@@ -80,6 +91,11 @@ function matchDegreePattern(degrees: number[]): { name: string; quality: string
 export async function initEssentia(): Promise<boolean> {
   if (essentiaReady) return true;
   try {
+    // @ts-ignore - essentia.js types are complex
+    const { default: Essentia } = await import('essentia.js/dist/essentia.js-core.es.js');
+    // @ts-ignore
+    const { EssentiaWASM } = await import('essentia.js/dist/essentia-wasm.es.js');
+
     // EssentiaWASM is already the module (not a factory)
     essentia = new Essentia(EssentiaWASM);
     essentiaReady = true;
@@ -91,42 +107,77 @@ export async function initEssentia(): Promise<boolean> {
   }
 }
 
-const degreeToSemitone: Record<number, number> = {
-  1: 0,
-  2: 2,
-  3: 4,
-  4: 5,
-  5: 7,
-  6: 9,
-  7: 11,
-};
+// Note lengths (seconds) - exports use the same values so files match what you heard
+export const NOTE_DURATION = 0.5;
+export const CHORD_DURATION = 0.6;
+export const CHORD_STAGGER = 0.02;  // Between chord tones, for richness
 
-const rootFrequencies: Record<string, number> = {
-  C: 261.63,
-  D: 293.66,
-  E: 329.63,
-  F: 349.23,
-  G: 392.0,
-  A: 440.0,
-  B: 493.88,
-};
+// ============================================================================
+// OUTPUT ROUTING
+// ============================================================================
 
-function getFrequency(degree: number, key: string): number {
-  const rootFreq = rootFrequencies[key];
-  const semitones = degreeToSemitone[degree];
-  let freq = rootFreq * Math.pow(2, semitones / 12);
+// Where played notes go: the built-in synth, a MIDI output, or both
+export type OutputRoute = 'synth' | 'midi' | 'both';
+
+let outputRoute: OutputRoute = 'synth';
+let midiOutput: MidiOutPort | null = null;
+
+export function setOutputRoute(route: OutputRoute): void {
+  outputRoute = route;
+}
+
+export function getOutputRoute(): OutputRoute {
+  return outputRoute;
+}
+
+export function setMidiOutput(port: MidiOutPort | null): void {
+  midiOutput = port;
+}
+
+export function getMidiOutput(): MidiOutPort | null {
+  return midiOutput;
+}
 
-  // Drop leading tone (7) an octave so it resolves UP to tonic
-  if (degree === 7) {
-    freq = freq / 2;
+// Without an output to send to, 'midi' falls back to the synth rather than silence
+function usesSynth(): boolean {
+  return outputRoute !== 'midi' || !midiOutput;
+}
+
+function sendDegree(degree: number, delay: number = 0): void {
+  if (outputRoute !== 'synth' && midiOutput) {
+    sendMidiNote(midiOutput, degreeToMidiNote(degree, config.key), delay);
   }
+}
 
-  return freq;
+function sendSemitone(semitones: number, delay: number = 0): void {
+  if (outputRoute !== 'synth' && midiOutput) {
+    sendMidiNote(midiOutput, keyRootNote(config.key) + semitones, delay);
+  }
 }
 
+// ============================================================================
+// SYNTH
+// ============================================================================
+
 let audioContext: AudioContext | null = null;
+let synth: Synth | null = null;
+let bus: TensionBus | null = null;
+let instrument: Instrument = sine;
 let isInitialized = false;
 
+export function setInstrument(next: Instrument): void {
+  instrument = next;
+}
+
+export function getInstrument(): Instrument {
+  return instrument;
+}
+
+// Context samples are decoded on (created on first use)
+export function getAudioContext(): AudioContext {
+  return ensureContext();
+}
+
 function ensureContext(): AudioContext {
   if (!audioContext) {
     audioContext = new AudioContext();
@@ -134,6 +185,21 @@ function ensureContext(): AudioContext {
   return audioContext;
 }
 
+// All notes go through one voice manager and master bus, then the tension bus
+function ensureSynth(): Synth {
+  const ctx = ensureContext();
+
+  if (ctx.state === 'suspended') {
+    ctx.resume();
+  }
+
+  if (!synth) {
+    bus = createTensionBus(ctx);
+    synth = createSynth(ctx, ctx.destination, bus);
+  }
+  return synth;
+}
+
 // Call this synchronously on user gesture to unlock audio (Safari requirement)
 export function initAudio(): void {
   if (isInitialized) return;
@@ -155,65 +221,92 @@ export function initAudio(): void {
 }
 
 export function playDegree(degree: number): void {
-  const ctx = ensureContext();
+  sendDegree(degree);
+  if (!usesSynth()) return;
 
-  if (ctx.state === 'suspended') {
-    ctx.resume();
-  }
-
-  const frequency = getFrequency(degree, config.key);
+  const synth = ensureSynth();
+  scheduleDegree(synth, degree, config.key, synth.context.currentTime, degreeTensions.get(degree) ?? 0, notesPlayed++);
+}
 
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
+// A note that sounds until releaseDegree - for holding a node or a key down.
+// A quick tap still lasts a normal note length.
+export type HeldNote = {
+  voice: number | null;     // Synth voice, if the synth is in use
+  midiNote: number | null;  // Note sent to the MIDI output, if any
+  until: number;            // performance.now() before which it won't stop
+};
 
-  osc.type = 'sine';
-  osc.frequency.value = frequency;
-  gain.gain.value = 0.3;
+export function holdDegree(degree: number): HeldNote {
+  const held: HeldNote = { voice: null, midiNote: null, until: performance.now() + NOTE_DURATION * 1000 };
 
-  osc.connect(gain);
-  gain.connect(ctx.destination);
+  if (outputRoute !== 'synth' && midiOutput) {
+    held.midiNote = degreeToMidiNote(degree, config.key);
+    sendNoteOn(midiOutput, held.midiNote);
+  }
+  if (usesSynth()) {
+    const detune = tensionDetune(degreeTensions.get(degree) ?? 0, notesPlayed++);
+    held.voice = ensureSynth().noteOn(detuned(degreeFrequency(degree), detune), { velocity: 0.3, instrument });
+  }
 
-  osc.start();
-  osc.stop(ctx.currentTime + 0.5);
+  return held;
 }
 
-// Chord intervals (triads built on each degree)
-const chordIntervals: Record<number, number[]> = {
-  1: [1, 3, 5],    // I - major
-  2: [2, 4, 6],    // ii - minor
-  3: [3, 5, 7],    // iii - minor
-  4: [4, 6, 1],    // IV - major
-  5: [5, 7, 2],    // V - major
-  6: [6, 1, 3],    // vi - minor
-  7: [7, 2, 4],    // vii° - diminished
-};
-
-export function playChord(degree: number): void {
-  const ctx = ensureContext();
+export function releaseDegree(held: HeldNote): void {
+  const wait = Math.max(0, held.until - performance.now());
 
-  if (ctx.state === 'suspended') {
-    ctx.resume();
+  if (held.voice !== null && synth) {
+    synth.noteOff(held.voice, synth.context.currentTime + wait / 1000);
+  }
+  if (held.midiNote !== null && midiOutput) {
+    sendNoteOff(midiOutput, held.midiNote, performance.now() + wait);
   }
+}
 
-  const degrees = chordIntervals[degree];
+// Last chord's voicing, for smooth voice leading
+let lastVoicing: number[] | null = null;
 
-  degrees.forEach((d, i) => {
-    const frequency = getFrequency(d, config.key);
+// Any chord's degrees, root first (altered degrees for chromatic tones - see chords.ts)
+export function playChord(degrees: number[]): void {
+  const tones = voiceChord(degrees, voicingSettings, lastVoicing);
+  lastVoicing = tones;
 
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
+  tones.forEach((t, i) => sendSemitone(t, i * CHORD_STAGGER));
+  if (!usesSynth()) return;
 
-    osc.type = 'sine';
-    osc.frequency.value = frequency;
-    gain.gain.value = 0.2;  // Quieter per note since stacked
+  const synth = ensureSynth();
+  scheduleChord(synth, tones, config.key, synth.context.currentTime, degreeTensions.get(degrees[0]) ?? 0);
+}
 
-    osc.connect(gain);
-    gain.connect(ctx.destination);
+// Scheduling shared by live playback and offline renders (see export.ts).
+// `tension` is the degree's (the root's, for a chord) when it's struck.
+export function scheduleDegree(
+  synth: Synth,
+  degree: number,
+  key: string,
+  at: number,
+  tension: number,
+  count: number,
+  sound: Instrument = instrument
+): void {
+  const frequency = detuned(degreeFrequency(degree, key), tensionDetune(tension, count));
+  const voice = synth.noteOn(frequency, { velocity: 0.3, at, instrument: sound });
+  synth.noteOff(voice, at + NOTE_DURATION);
+}
 
-    // Slight stagger for richness
-    const startTime = ctx.currentTime + i * 0.02;
-    osc.start(startTime);
-    osc.stop(startTime + 0.6);
+export function scheduleChord(
+  synth: Synth,
+  tones: number[],
+  key: string,
+  at: number,
+  tension: number,
+  sound: Instrument = instrument
+): void {
+  tones.forEach((t, i) => {
+    // Slight stagger for richness; quieter per note since stacked
+    const start = at + i * CHORD_STAGGER;
+    const frequency = detuned(semitoneFrequency(t, key), tensionDetune(tension, i));
+    const voice = synth.noteOn(frequency, { velocity: 0.2, at: start, instrument: sound });
+    synth.noteOff(voice, start + CHORD_DURATION);
   });
 }
 
@@ -221,6 +314,45 @@ export function resumeAudio(): void {
   initAudio();
 }
 
+// ============================================================================
+// SONIFICATION
+// ============================================================================
+
+// Per-degree tension as of the last sonifyState, for detuning new notes
+let degreeTensions = new Map<number, number>();
+let notesPlayed = 0;
+
+// What the bus was last sent, so unchanged frames don't pile up automation
+const LEVEL_EPSILON = 0.002;
+let sentLevel: TensionLevel | null = null;
+let sentEnabled = sonificationSettings.enabled;
+
+// Follow the harmonic state with the tension bus - call whenever it's redrawn
+export function sonifyState(state: State): void {
+  degreeTensions = state.tensions;
+  if (!bus) return;
+
+  const level = { total: getTotalTension(state), peak: Math.max(0, ...state.tensions.values()) };
+  const unchanged = sentLevel !== null
+    && sentEnabled === sonificationSettings.enabled
+    && Math.abs(level.total - sentLevel.total) < LEVEL_EPSILON
+    && Math.abs(level.peak - sentLevel.peak) < LEVEL_EPSILON;
+  if (unchanged) return;
+
+  bus.update(level);
+  sentLevel = level;
+  sentEnabled = sonificationSettings.enabled;
+}
+
+// The release sound for a resolution or cadence
+export function playRelease(released: number): void {
+  if (usesSynth()) bus?.release(Math.min(1, released));
+}
+
+function detuned(hz: number, cents: number): number {
+  return hz * Math.pow(2, cents / 1200);
+}
+
 // ============================================================================
 // MICROPHONE PITCH DETECTION
 // ============================================================================
@@ -466,19 +598,20 @@ function detectChordWithName(buffer: Float32Array, sampleRate: number): { degree
       40,
       false,
       'unitMax',
-      440,
+      tuningSettings.reference,
       sampleRate,
       12,
       'squaredCosine',
       1
     ).hpcp;
 
-    // Convert HPCP to C-based array (matching training data)
+    // Convert HPCP to a tonic-based array (the training data was all in C)
     // Essentia HPCP: 0=A, 1=A#, 2=B, 3=C, etc.
+    const tonic = keyPitchClass(config.key);
     const hpcp: number[] = [];
     for (let i = 0; i < 12; i++) {
-      // Rotate so index 0 = C
-      hpcp.push(hpcpResult.get((i + 3) % 12));
+      // Rotate so index 0 = the key's tonic
+      hpcp.push(hpcpResult.get((i + tonic + 3) % 12));
     }
 
     // USE TRAINED MODEL if available
@@ -553,21 +686,11 @@ function detectWithModel(hpcp: number[]): { degrees: number[]; chordName: string
 
 // Fallback: template matching (original approach)
 function detectWithTemplates(hpcp: number[]): { degrees: number[]; chordName: string | null; chordQuality: string | null } {
-  // Map HPCP to current key's scale degrees
-  const keyOffsets: Record<string, number> = {
-    A: 9, 'A#': 10, B: 11, C: 0, 'C#': 1, D: 2, 'D#': 3, E: 4, F: 5, 'F#': 6, G: 7, 'G#': 8
-  };
-  const keyOffset = keyOffsets[config.key] || 0;
-
-  // Major scale intervals: 0, 2, 4, 5, 7, 9, 11 semitones
-  const majorScaleIntervals = [0, 2, 4, 5, 7, 9, 11];
-
-  // Build degree scores (1-indexed array)
+  // Build degree scores (1-indexed array) from the active scale's intervals
+  // (hpcp is already relative to the key's tonic)
   const degreeScores: number[] = [0]; // Index 0 unused
   for (let degree = 1; degree <= 7; degree++) {
-    const semitone = majorScaleIntervals[degree - 1];
-    const hpcpIndex = (keyOffset + semitone) % 12;
-    degreeScores.push(hpcp[hpcpIndex]);
+    degreeScores.push(hpcp[config.scale.semitones[degree]]);
   }
 
   // Match chord template
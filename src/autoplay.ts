@@ -0,0 +1,152 @@
+// Autoplay - The playground improvising on its own
+// Each move is drawn at random from the candidates that would bring total
+// tension closest to where a tension arc says it should be. Everything random
+// comes from a seeded generator, so a seed replays the same improvisation.
+
+import { playNote, getTotalTension, resolutionRules, homeness, config } from './engine';
+import { playChordNotes, triadDegrees } from './harmony';
+import type { Snapshot } from './history';
+import type { SessionInput } from './session';
+
+// ============================================================================
+// RANDOMNESS
+// ============================================================================
+
+export type Rng = () => number;  // Uniform in [0, 1)
+
+// mulberry32 - small, fast, and the same sequence on every platform
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================================
+// TENSION ARCS
+// ============================================================================
+
+// Target total tension (0-1) at points through the piece (at: 0 = start, 1 = end).
+// A drawn arc is just more points (see arcFromStroke).
+export type TensionArc = { at: number; tension: number }[];
+
+export const arcPresets: Record<string, TensionArc> = {
+  // Build → climax → resolve
+  arch: [
+    { at: 0, tension: 0 },
+    { at: 0.65, tension: 0.8 },
+    { at: 0.8, tension: 0.6 },
+    { at: 1, tension: 0 },
+  ],
+  // Two smaller waves, the second higher
+  waves: [
+    { at: 0, tension: 0 },
+    { at: 0.25, tension: 0.5 },
+    { at: 0.45, tension: 0.1 },
+    { at: 0.75, tension: 0.8 },
+    { at: 1, tension: 0 },
+  ],
+  // Stay restless, then let go at the very end
+  plateau: [
+    { at: 0, tension: 0 },
+    { at: 0.2, tension: 0.6 },
+    { at: 0.85, tension: 0.6 },
+    { at: 1, tension: 0 },
+  ],
+};
+
+// A stroke drawn left to right on a pad (x and y 0-1, y down) as an arc -
+// higher is tenser. Backtracking is ignored; too short a stroke gives null.
+export function arcFromStroke(stroke: { x: number; y: number }[]): TensionArc | null {
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const arc: TensionArc = [];
+
+  for (const { x, y } of stroke) {
+    const at = clamp(x);
+    if (arc.length > 0 && at < arc[arc.length - 1].at + 0.01) continue;
+    arc.push({ at, tension: clamp(1 - y) });
+  }
+
+  return arc.length >= 2 && arc[arc.length - 1].at - arc[0].at >= 0.2 ? arc : null;
+}
+
+// Linear interpolation between the arc's points
+export function arcAt(arc: TensionArc, progress: number): number {
+  const points = [...arc].sort((a, b) => a.at - b.at);
+  if (progress <= points[0].at) return points[0].tension;
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    if (progress <= to.at) {
+      const t = to.at > from.at ? (progress - from.at) / (to.at - from.at) : 1;
+      return from.tension + (to.tension - from.tension) * t;
+    }
+  }
+  return points[points.length - 1].tension;
+}
+
+// ============================================================================
+// CHOOSING MOVES
+// ============================================================================
+
+export type AutoplayOptions = {
+  chordChance: number;  // Share of moves that are chords
+  focus: number;        // How strictly to follow the arc (higher = less random)
+};
+
+export const defaultAutoplayOptions: AutoplayOptions = {
+  chordChance: 0.2,
+  focus: 8,
+};
+
+type Candidate = { input: SessionInput; tension: number; prior: number };
+
+// Pick the next input for a target tension. Candidates are weighted by how
+// close they'd land to the target, times a prior that favours degrees with
+// somewhere to resolve (so tension that's built can later be let go).
+export function chooseMove(
+  present: Snapshot,
+  target: number,
+  rng: Rng,
+  options: AutoplayOptions = defaultAutoplayOptions
+): SessionInput {
+  const { state, harmony } = present;
+  const candidates: Candidate[] = rng() < options.chordChance
+    ? config.scale.enabledDegrees.map(root => {
+        const degrees = triadDegrees(root);
+        const next = playChordNotes(state, harmony, root, degrees);
+        return {
+          input: { type: 'chord', root, degrees, source: 'autoplay' },
+          tension: (getTotalTension(next.state) + next.harmony.progressionTension) / 2,
+          prior: 1,
+        };
+      })
+    : config.scale.enabledDegrees.map(degree => ({
+        input: { type: 'note', degree, source: 'autoplay' },
+        tension: getTotalTension(playNote(state, degree).state),
+        prior: resolutionRules.some(rule => rule.from === degree) || homeness[degree] >= 0.5 ? 1 : 0.5,
+      }));
+
+  const weights = candidates.map(c => c.prior * Math.exp(-Math.abs(c.tension - target) * options.focus));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  let pick = rng() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    pick -= weights[i];
+    if (pick < 0) return candidates[i].input;
+  }
+  return candidates[candidates.length - 1].input;
+}
+
+// Time to the next move (ms): a steady beat with some longer and shorter notes,
+// moving faster as the target tension rises
+export function nextInterval(target: number, rng: Rng, beat: number = 500): number {
+  const lengths = [0.5, 1, 1, 1, 1.5, 2];
+  const length = lengths[Math.floor(rng() * lengths.length)];
+  return Math.round(beat * length * (1 - target * 0.4));
+}
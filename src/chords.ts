@@ -0,0 +1,122 @@
+// Chords - What a shift-click can play
+// Diatonic triads and sevenths, sus chords, secondary dominants (V/x) and
+// chords borrowed from the parallel mode (iv, ♭VI, ♭VII in major). Chromatic
+// tones come out as altered degrees, so the engine hears exactly what sounds.
+
+import { config } from './engine';
+import { getChordFunction, type HarmonicFunction } from './harmony';
+import { scales, romanNumeral, degreeAtSemitone, type Scale } from './scales';
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export type ChordType = 'triad' | 'sus2' | 'sus4' | 'secondary' | 'borrowed';
+
+export type ChordSettings = {
+  type: ChordType;   // What a shift-click on a degree builds
+  seventh: boolean;  // Add the seventh (Alt+Shift-click flips it for one chord)
+};
+
+export const chordSettings: ChordSettings = {
+  type: 'triad',
+  seventh: false,
+};
+
+// Order the chord picker steps through
+export const chordTypes: ChordType[] = ['triad', 'sus4', 'sus2', 'secondary', 'borrowed'];
+
+export type Chord = {
+  name: string;      // 'V7', 'IIsus4', 'V/vi', '♭VII'…
+  root: number;      // Degree (altered for a chromatic root)
+  degrees: number[]; // Root first
+  function: HarmonicFunction;  // Dominant for V/x, whatever its root
+};
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+// The chord of a type on a degree of the active scale. For secondary
+// dominants the degree is the chord being tonicised: 'secondary' on 2 is V/ii.
+export function buildChord(
+  degree: number,
+  type: ChordType = chordSettings.type,
+  seventh: boolean = chordSettings.seventh
+): Chord {
+  const scale = config.scale;
+  let degrees: number[];
+
+  switch (type) {
+    case 'triad':
+      degrees = stack(degree, seventh ? [0, 2, 4, 6] : [0, 2, 4]);
+      break;
+
+    case 'sus2':
+    case 'sus4':
+      // A major second or perfect fourth and a perfect fifth (plus a minor
+      // seventh) on every degree, altering whatever the scale doesn't have
+      degrees = atSemitones(scale.semitones[degree], [0, type === 'sus2' ? 2 : 5, 7, 10], seventh, scale);
+      break;
+
+    case 'secondary': {
+      // A major triad (plus a minor seventh) a fifth above the target
+      degrees = atSemitones(scale.semitones[degree] + 7, [0, 4, 7, 10], seventh, scale);
+      const name = `V${seventh ? '7' : ''}/${romanNumeral(degree, scale)}`;
+      return { name, root: degrees[0], degrees, function: 'dominant' };
+    }
+
+    case 'borrowed': {
+      // The same degree's chord in the parallel mode, spelled in this one
+      const parallel = parallelScale(scale);
+      degrees = stack(degree, seventh ? [0, 2, 4, 6] : [0, 2, 4])
+        .map(d => degreeAtSemitone(parallel.semitones[d], scale)!);
+      break;
+    }
+  }
+
+  return { name: nameChord(degrees, scale), root: degrees[0], degrees, function: getChordFunction(degrees[0]) };
+}
+
+// Degrees at fixed intervals above a semitone, the last (the seventh) only if asked for
+function atSemitones(rootSemitone: number, intervals: number[], seventh: boolean, scale: Scale): number[] {
+  return intervals
+    .slice(0, seventh ? intervals.length : intervals.length - 1)
+    .map(interval => degreeAtSemitone(rootSemitone + interval, scale)!);
+}
+
+// Degrees `steps` scale steps above a degree, e.g. 5, [0, 2, 4] → [5, 7, 2]
+// (the same in every scale - degrees are always 1-7)
+function stack(degree: number, steps: number[]): number[] {
+  return steps.map(step => ((degree - 1 + step) % 7) + 1);
+}
+
+// Major borrows from natural minor; minor-third scales borrow from major
+function parallelScale(scale: Scale): Scale {
+  const name = scale.semitones[3] === 4 ? 'natural minor' : 'major';
+  return scales.find(s => s.name === name)!;
+}
+
+// ============================================================================
+// NAMING
+// ============================================================================
+
+// Name a chord by what's actually in it (root first): 'iv', '♭VI', 'V7',
+// 'viiø7', 'IVmaj7', 'Vsus4'…
+export function nameChord(degrees: number[], scale: Scale = config.scale): string {
+  const root = degrees[0];
+  const intervals = new Set(degrees.slice(1).map(d => (scale.semitones[d] - scale.semitones[root] + 12) % 12));
+  const numeral = romanNumeral(root, scale).replace(/[°+]$/, '').toUpperCase();
+  const seventh = intervals.has(11) ? 'maj7' : intervals.has(10) ? '7' : '';
+
+  if (intervals.has(4)) return numeral + (intervals.has(8) ? '+' : '') + seventh;
+  if (!intervals.has(3)) {
+    const sus = intervals.has(5) ? 'sus4' : intervals.has(2) ? 'sus2' : '';
+    return numeral + seventh + sus;
+  }
+
+  const minor = numeral.toLowerCase();
+  if (!intervals.has(6)) return minor + seventh;
+  if (intervals.has(9)) return minor + '°7';
+  return minor + (seventh ? 'ø7' : '°');
+}
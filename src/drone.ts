@@ -0,0 +1,89 @@
+// Drone - A sustained bass under everything that's played
+// The tonic (optionally with its fifth), or a pedal on any degree, held low
+// and quiet so tension is heard against a real note rather than an imagined
+// one. A dominant pedal shows how the same degrees change meaning over V.
+
+import { config } from './engine';
+import { getAudioContext } from './audio';
+import { semitoneFrequency } from './pitch';
+import { createSynth, type Instrument, type Synth } from './synth';
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export type DroneMode = 'off' | 'tonic' | 'fifth' | 'dominant' | 'pedal';
+
+export type DroneSettings = {
+  mode: DroneMode;   // 'fifth' = tonic and fifth, 'pedal' = pedalDegree
+  pedalDegree: number;
+  level: number;     // Peak gain per voice, 0-1
+};
+
+export const droneSettings: DroneSettings = {
+  mode: 'off',
+  pedalDegree: 1,
+  level: 0.12,
+};
+
+// Order the drone key steps through
+export const droneModes: DroneMode[] = ['off', 'tonic', 'fifth', 'dominant', 'pedal'];
+
+// Soft organ: fundamental plus a quiet octave, swelling in and out slowly
+const droneInstrument: Instrument = {
+  name: 'drone',
+  envelope: { attack: 0.8, decay: 0.2, sustain: 1, release: 1.5 },
+  createSources(context, frequency, at, destination) {
+    return [1, 2].map(harmonic => {
+      const osc = context.createOscillator();
+      const gain = context.createGain();
+      osc.frequency.setValueAtTime(frequency * harmonic, at);
+      gain.gain.value = harmonic === 1 ? 1 : 0.25;
+
+      osc.connect(gain);
+      gain.connect(destination);
+      return osc;
+    });
+  },
+};
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+// Its own synth, so clicks piling up never steal the drone's voices
+let synth: Synth | null = null;
+let voices: number[] = [];
+let sounding = '';  // Frequencies now playing, to tell when anything changed
+
+// A degree's semitones an octave or two down, with the root in C2-F#3 (relative to C)
+function bassSemitones(degree: number): number {
+  const semitones = config.scale.semitones[degree];
+  return semitones > 6 ? semitones - 24 : semitones - 12;
+}
+
+// Semitones from the tonic for each drone note in a mode
+export function droneSemitones(settings: DroneSettings = droneSettings): number[] {
+  switch (settings.mode) {
+    case 'off': return [];
+    case 'tonic': return [bassSemitones(1)];
+    case 'fifth': return [bassSemitones(1), bassSemitones(1) + 7];
+    case 'dominant': return [bassSemitones(5)];
+    case 'pedal': return [bassSemitones(settings.pedalDegree)];
+  }
+}
+
+// Bring the drone in line with the settings and the current key, scale and
+// tuning - call after any of them change. Unchanged notes keep sounding.
+export function updateDrone(): void {
+  const frequencies = droneSemitones().map(semitones => semitoneFrequency(semitones, config.key));
+  const signature = frequencies.map(hz => hz.toFixed(3)).join(',');
+  if (signature === sounding) return;
+
+  if (!synth) synth = createSynth(getAudioContext());
+
+  // The old notes fade out under the new ones
+  for (const id of voices) synth.noteOff(id);
+  voices = frequencies.map(hz => synth!.noteOn(hz, { velocity: droneSettings.level, instrument: droneInstrument }));
+  sounding = signature;
+}
@@ -1,29 +1,20 @@
 // Harmonic Engine - Simplified Model
 // Two dimensions: WHERE you are (home vs away) + WHICH WAY you're going
 
+import { major, type ResolutionRule, type Scale } from './scales';
+import type { EngineEvent } from './events';
+
 // ============================================================================
 // CORE THEORY: Home vs Away
 // ============================================================================
 
 // How "home" each degree is (1 = home, 0 = far from home)
-export const homeness: Record<number, number> = {
-  1: 1.0,   // Home - tonic
-  3: 0.7,   // Near home - part of tonic triad
-  5: 0.7,   // Near home - part of tonic triad
-  6: 0.4,   // Away - not tonic, not leading
-  2: 0.3,   // Away - wants to resolve
-  4: 0.2,   // Far - strong pull to 3
-  7: 0.1,   // Far - leading tone, strongest pull to 1
-};
+// Filled from the active scale - see setScale()
+export const homeness: Record<number, number> = {};
 
-// Where each degree can resolve (multiple valid targets for some)
-export const resolvesTo: Record<number, number[]> = {
-  7: [1],     // Leading tone → tonic (always)
-  4: [3],     // Fa → mi (always)
-  2: [1, 3],  // Re → do OR mi (either works)
-  6: [5, 1],  // La → sol OR do (either works)
-  // 1, 3, 5 don't need to resolve - they're home
-};
+// Where each degree can resolve, and how strongly it pulls there
+// (multiple targets for some; stable degrees have no rules - they're home)
+export const resolutionRules: ResolutionRule[] = [];
 
 // ============================================================================
 // STATE
@@ -32,14 +23,18 @@ export const resolvesTo: Record<number, number[]> = {
 export type State = {
   lastNote: number | null;
   direction: 'toward' | 'away' | 'none';
+  momentum: number;               // Melodic momentum, -1 (falling) to 1 (rising)
   tensions: Map<number, number>;  // Unresolved tension per degree
+  sounding: Map<number, number>;  // Seconds left of each struck degree's note length
 };
 
 export function createInitialState(): State {
   return {
     lastNote: null,
     direction: 'none',
+    momentum: 0,
     tensions: new Map(),
+    sounding: new Map(),
   };
 }
 
@@ -50,60 +45,303 @@ export function createInitialState(): State {
 export type Resolution = {
   from: number;
   to: number;
+  released: number;  // Tension released (0-1), unresolved amount × pull strength
 };
 
-export function playNote(state: State, degree: number): Resolution | null {
+// Result of a transition: the new state plus what happened on the way.
+// Nothing is emitted here - whoever adopts the new state emits the events.
+export type Transition = {
+  state: State;
+  resolution: Resolution | null;  // Strongest resolution this note caused, if any
+  events: EngineEvent[];
+};
+
+// Events: resolution (each), tensionAdded, directionChanged, notePlayed
+export function playNote(state: State, degree: number): Transition {
+  const events: EngineEvent[] = [];
+  const tensions = new Map(state.tensions);
   let resolution: Resolution | null = null;
 
-  // Check if this resolves existing tension
-  for (const [tenseDegree, amount] of state.tensions) {
-    const targets = resolvesTo[tenseDegree];
-    if (targets && targets.includes(degree) && amount > 0) {
-      resolution = { from: tenseDegree, to: degree };
-      state.tensions.delete(tenseDegree);
+  // Check if this resolves existing tension - release proportional to pull
+  for (const rule of resolutionRules) {
+    if (rule.to !== degree) continue;
+
+    const unresolved = tensions.get(rule.from) ?? 0;
+    if (unresolved <= 0) continue;
+
+    const released = unresolved * rule.pullStrength;
+    const remaining = unresolved - released;
+    if (remaining < 0.01) {
+      tensions.delete(rule.from);
+    } else {
+      tensions.set(rule.from, remaining);
+    }
+
+    const ruleResolution = { from: rule.from, to: degree, released };
+    events.push({ type: 'resolution', resolution: ruleResolution });
+
+    if (!resolution || released > resolution.released) {
+      resolution = ruleResolution;
     }
   }
 
   // Add tension if this is an unstable degree
   const noteHomenesss = homeness[degree];
   if (noteHomenesss < 0.5) {
-    const currentTension = state.tensions.get(degree) ?? 0;
-    state.tensions.set(degree, Math.min(1, currentTension + (1 - noteHomenesss)));
+    const currentTension = tensions.get(degree) ?? 0;
+    const added = (1 - noteHomenesss) * (config.accumulationWeights[degree] ?? 1);
+    const tension = Math.min(config.maxTension, currentTension + added);
+    tensions.set(degree, tension);
+    events.push({ type: 'tensionAdded', degree, amount: tension - currentTension, tension });
   }
 
-  // Update direction
+  let { momentum, direction } = state;
+
   if (state.lastNote !== null) {
+    // Update melodic momentum - recent steps count more than older ones
+    const step = Math.sign(wrapInterval(degree - state.lastNote));
+    momentum = clamp(momentum * 0.6 + step * 0.4, -1, 1);
+
+    // Update direction
     const lastHomenesss = homeness[state.lastNote];
     const thisHomenesss = homeness[degree];
 
     if (thisHomenesss > lastHomenesss) {
-      state.direction = 'toward';
+      direction = 'toward';
     } else if (thisHomenesss < lastHomenesss) {
-      state.direction = 'away';
+      direction = 'away';
     } else {
-      state.direction = 'none';
+      direction = 'none';
+    }
+
+    if (direction !== state.direction) {
+      events.push({ type: 'directionChanged', direction, previous: state.direction });
     }
   }
 
-  state.lastNote = degree;
+  const sounding = new Map(state.sounding);
+  sounding.set(degree, config.soundingTime);
+
+  events.push({ type: 'notePlayed', degree, resolution });
 
-  return resolution;
+  return {
+    state: { lastNote: degree, direction, momentum, tensions, sounding },
+    resolution,
+    events,
+  };
 }
 
-export function decay(state: State, deltaTime: number): void {
-  const decayRate = 0.15;
+// Events: tensionDecayed for each degree whose tension fades away
+// One step of deltaTime gives the same result as many smaller steps, so the
+// present can always be rebuilt from the last input in a single call
+export function decay(state: State, deltaTime: number): Transition {
+  const events: EngineEvent[] = [];
+  const tensions = new Map<number, number>();
+  const sounding = new Map<number, number>();
+
+  for (const [degree, remaining] of state.sounding) {
+    if (remaining > deltaTime) {
+      sounding.set(degree, remaining - deltaTime);
+    }
+  }
 
   for (const [degree, tension] of state.tensions) {
-    const newTension = Math.max(0, tension - decayRate * deltaTime);
+    // A just-struck note keeps its tension for one note length
+    const held = config.holdForNoteLength ? Math.min(deltaTime, state.sounding.get(degree) ?? 0) : 0;
+    const newTension = decayValue(tension, deltaTime - held, config.decayWeights[degree] ?? 1);
     if (newTension < 0.01) {
-      state.tensions.delete(degree);
+      events.push({ type: 'tensionDecayed', degree });
     } else {
-      state.tensions.set(degree, newTension);
+      tensions.set(degree, newTension);
     }
   }
 
   // Direction fades to none over time if no new notes
   // (handled implicitly - direction only updates on note play)
+
+  return { state: { ...state, tensions, sounding }, resolution: null, events };
+}
+
+// How much of a tension value is left after deltaTime, on the configured curve.
+// `weight` speeds up (> 1) or slows down (< 1) the decay.
+export function decayValue(value: number, deltaTime: number, weight: number = 1): number {
+  if (deltaTime <= 0) return value;
+
+  switch (config.decayCurve) {
+    case 'linear':
+      return Math.max(0, value - config.decayRate * weight * deltaTime);
+    case 'exponential':
+      return value * Math.exp(-config.decayRate * weight * deltaTime);
+    case 'half-life':
+      return value * Math.pow(0.5, deltaTime * weight / config.halfLife);
+  }
+}
+
+// ============================================================================
+// MUSICAL FORCES (Larson) - what going to a degree next would feel like
+// ============================================================================
+
+export type MusicalForces = {
+  magnetism: number;  // 0 to 1: How much this note is "pulled to" as resolution
+  inertia: number;    // -1 to 1: How much this continues current momentum
+  gravity: number;    // 0 to 1: Pull of descending toward a stable pitch
+  tension: number;    // 0 to 1: How much tension this would create
+};
+
+export function calculateForces(targetDegree: number, state: State): MusicalForces {
+  // Magnetism: is this note a resolution target for existing tension?
+  let magnetism = 0;
+  for (const rule of resolutionRules) {
+    if (rule.to === targetDegree) {
+      magnetism += (state.tensions.get(rule.from) ?? 0) * rule.pullStrength;
+    }
+  }
+
+  // Inertia: does this continue the current melodic direction?
+  let inertia = 0;
+  let gravity = 0;
+  const stability = homeness[targetDegree];
+
+  if (state.lastNote !== null) {
+    const interval = wrapInterval(targetDegree - state.lastNote);
+    const sameDirection = (state.momentum > 0 && interval > 0) ||
+                          (state.momentum < 0 && interval < 0);
+    inertia = sameDirection ? Math.abs(state.momentum) : -Math.abs(state.momentum) * 0.5;
+
+    // Gravity: descending into stability
+    if (interval < 0) {
+      gravity = stability * 0.5;
+    }
+  }
+
+  return {
+    magnetism: clamp(magnetism, 0, 1),
+    inertia,
+    gravity,
+    tension: 1 - stability,
+  };
+}
+
+// Blend forces into a color (see design.md §5.8):
+// gold = magnetism, blue/pink = with/against inertia, purple = tension, green = gravity
+export function getForceColor(
+  forces: MusicalForces,
+  baseHue: number
+): { h: number; s: number; l: number } {
+  let h = baseHue;
+  let s = 30;
+  const l = 50;
+
+  if (forces.magnetism > 0.3) {
+    h = blendHue(h, 45, forces.magnetism);
+    s += forces.magnetism * 70;
+  }
+
+  if (forces.inertia > 0.2) {
+    h = blendHue(h, 210, forces.inertia * 0.8);
+    s += forces.inertia * 50;
+  } else if (forces.inertia < -0.2) {
+    h = blendHue(h, 330, Math.abs(forces.inertia) * 0.6);
+    s += Math.abs(forces.inertia) * 40;
+  }
+
+  if (forces.tension > 0.5) {
+    h = blendHue(h, 280, forces.tension * 0.7);
+    s += forces.tension * 60;
+  }
+
+  if (forces.gravity > 0.3) {
+    h = blendHue(h, 120, forces.gravity * 0.5);
+  }
+
+  return { h, s: clamp(s, 30, 90), l };
+}
+
+// Interpolate hue along the shorter way round the color wheel
+function blendHue(from: number, to: number, amount: number): number {
+  const diff = ((to - from) % 360 + 540) % 360 - 180;
+  return (from + diff * clamp(amount, 0, 1) + 360) % 360;
+}
+
+// Shortest signed step between degrees around the octave (7 → 1 is +1, up)
+function wrapInterval(interval: number): number {
+  if (interval > 3) return interval - 7;
+  if (interval < -3) return interval + 7;
+  return interval;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// ============================================================================
+// SUGGESTIONS - ranking where to go next
+// ============================================================================
+
+// Short reason code: what a move would mostly do
+export type SuggestionReason = 'resolve' | 'momentum' | 'tension' | 'rest';
+
+export type Suggestion = {
+  degree: number;
+  score: number;
+  reason: SuggestionReason;
+  resolves: number;  // Tension it would release
+  momentum: number;  // -1 to 1: carries (+) or breaks (-) the melodic line
+  tension: number;   // Tension it would add
+};
+
+// How much each effect counts toward a suggestion's score
+export const suggestionWeights = {
+  resolve: 1,
+  momentum: 0.4,
+  tension: 0.3,
+};
+
+// Every candidate played against the current state (nothing is changed),
+// best first
+export function rankNextDegrees(
+  state: State,
+  candidates: number[] = config.scale.enabledDegrees
+): Suggestion[] {
+  const suggestions = candidates.map(degree => {
+    let resolves = 0;
+    let tension = 0;
+    for (const event of playNote(state, degree).events) {
+      if (event.type === 'resolution') resolves += event.resolution.released;
+      if (event.type === 'tensionAdded') tension += event.amount;
+    }
+    const momentum = calculateForces(degree, state).inertia;
+
+    const parts: Record<Exclude<SuggestionReason, 'rest'>, number> = {
+      resolve: resolves * suggestionWeights.resolve,
+      momentum: momentum * suggestionWeights.momentum,
+      tension: tension * suggestionWeights.tension,
+    };
+
+    return {
+      degree,
+      score: parts.resolve + parts.momentum + parts.tension,
+      reason: strongestReason(parts),
+      resolves,
+      momentum,
+      tension,
+    };
+  });
+
+  return suggestions.sort((a, b) => b.score - a.score);
+}
+
+// The biggest positive contribution, or 'rest' if nothing much would happen
+export function strongestReason<R extends string>(parts: Record<R, number>): R | 'rest' {
+  let reason: R | 'rest' = 'rest';
+  let best = 0.05;
+  for (const [name, value] of Object.entries(parts) as [R, number][]) {
+    if (value > best) {
+      best = value;
+      reason = name;
+    }
+  }
+  return reason;
 }
 
 // ============================================================================
@@ -121,52 +359,32 @@ export function getTotalTension(state: State): number {
 
 // Is this degree a resolution target right now?
 export function isResolutionTarget(state: State, degree: number): boolean {
-  for (const [tenseDegree] of state.tensions) {
-    const targets = resolvesTo[tenseDegree];
-    if (targets && targets.includes(degree)) {
-      return true;
-    }
-  }
-  return false;
+  return resolutionRules.some(rule => rule.to === degree && state.tensions.has(rule.from));
 }
 
 // Get color for a degree based on state
+// At rest nodes show inherent stability; once there's context, the color
+// shows the emotional consequence of going there next
 export function getNodeColor(
   degree: number,
   state: State
 ): { h: number; s: number; l: number } {
   const home = homeness[degree];
   const tension = state.tensions.get(degree) ?? 0;
-  const isTarget = isResolutionTarget(state, degree);
 
   // Base hue: warm (45) for home, cool (220) for away
-  let h = 45 + (1 - home) * 175;  // 45 (gold) → 220 (blue)
-  let s = 70;  // Higher base saturation
-  let l = 50;  // Brighter base
+  const baseHue = 45 + (1 - home) * 175;  // 45 (gold) → 220 (blue)
 
-  // If this degree has tension, shift toward magenta/pink
-  if (tension > 0.1) {
-    h = h * 0.3 + 320 * 0.7;  // Strong shift toward magenta
-    s = Math.min(100, s + tension * 30);
-    l = Math.min(70, l + tension * 20);
+  if (state.lastNote === null && tension === 0) {
+    return { h: Math.round(baseHue), s: 70, l: 50 };
   }
 
-  // If this is a resolution target, bright pulsing gold
-  if (isTarget) {
-    h = 50;  // Strong gold
-    s = 100;
-    l = 65;
-  }
+  let { h, s, l } = getForceColor(calculateForces(degree, state), baseHue);
 
-  // Direction influence - more dramatic
-  if (state.direction === 'toward' && home > 0.5) {
-    // Moving toward home - home notes glow bright warm
-    s = Math.min(100, s + 25);
-    l = Math.min(75, l + 15);
-  } else if (state.direction === 'away' && home < 0.5) {
-    // Moving away - away notes get vivid
-    s = Math.min(100, s + 25);
-    l = Math.min(70, l + 10);
+  // Nodes holding unresolved tension burn brighter
+  if (tension > 0.1) {
+    s = s + tension * 30;
+    l = l + tension * 20;
   }
 
   return {
@@ -180,28 +398,14 @@ export function getNodeColor(
 // NODE POSITIONS - Radial layout (distance from center = distance from home)
 // ============================================================================
 
-// Angles for each degree (in degrees, 0 = right, 90 = down in SVG)
-// Layout designed so resolution direction is visible:
-//   - 4 above 3 (falls down to resolve)
-//   - 2 above 1 (falls down to resolve)
-//   - 7 below/left of 1 (rises up to resolve)
-//   - 6 above 5 (falls down to resolve)
-//   - Stable notes (3, 5) at bottom (grounded)
-const nodeAngles: Record<number, number> = {
-  1: 0,      // center (angle doesn't matter)
-  3: 120,    // stable, lower-left (grounded)
-  5: 60,     // stable, lower-right (grounded)
-  4: 210,    // far, upper-left (above 3, falls to it)
-  2: 270,    // away, directly above (falls to 1)
-  6: 330,    // away, upper-right (above 5, falls to it)
-  7: 165,    // far, left & slightly below (rises to 1)
-};
+// Angles for each degree come from the active scale (in degrees, 0 = right,
+// 90 = down in SVG), so resolution direction stays visible in every mode
 
 function calculateNodePosition(degree: number): { x: number; y: number } {
   const home = homeness[degree];
   const distance = (1 - home) * 30;  // 0 at center, 30 at edge
 
-  const angleDeg = nodeAngles[degree];
+  const angleDeg = config.scale.nodeAngles[degree];
   const angleRad = angleDeg * Math.PI / 180;
 
   return {
@@ -210,24 +414,73 @@ function calculateNodePosition(degree: number): { x: number; y: number } {
   };
 }
 
-// Pre-calculate positions
-export const nodePositions: Record<number, { x: number; y: number }> = {
-  1: calculateNodePosition(1),
-  2: calculateNodePosition(2),
-  3: calculateNodePosition(3),
-  4: calculateNodePosition(4),
-  5: calculateNodePosition(5),
-  6: calculateNodePosition(6),
-  7: calculateNodePosition(7),
-};
+// Pre-calculated positions, refreshed whenever the scale changes
+export const nodePositions: Record<number, { x: number; y: number }> = {};
+
+// ============================================================================
+// SCALE SWITCHING
+// ============================================================================
+
+// Make a scale active: homeness, resolution targets and layout all follow it
+export function setScale(scale: Scale): void {
+  config.scale = scale;
+
+  replaceContents(homeness, scale.homeness);
+  resolutionRules.splice(0, resolutionRules.length, ...scale.resolutionRules);
+
+  const positions: Record<number, { x: number; y: number }> = {};
+  for (const degree of scale.enabledDegrees) {
+    positions[degree] = calculateNodePosition(degree);
+  }
+
+  // Altered degrees sit on the line between their diatonic neighbours
+  for (const degree of scale.alteredDegrees) {
+    const lower = positions[Math.floor(degree)];
+    const upper = positions[Math.floor(degree) === 7 ? 1 : Math.floor(degree) + 1];
+    const t = degree - Math.floor(degree);
+    positions[degree] = {
+      x: lower.x + (upper.x - lower.x) * t,
+      y: lower.y + (upper.y - lower.y) * t,
+    };
+  }
+
+  replaceContents(nodePositions, positions);
+}
+
+// Swap a shared table's entries in place so importers keep a live view
+function replaceContents<T>(target: Record<number, T>, source: Record<number, T>): void {
+  for (const key of Object.keys(target)) {
+    delete target[Number(key)];
+  }
+  Object.assign(target, source);
+}
 
 // ============================================================================
-// AUDIO CONFIG
+// CONFIG
 // ============================================================================
 
+// Shape of tension decay over time:
+//   linear      - loses decayRate per second, reaches zero
+//   exponential - loses a share (decayRate per second) of what's left
+//   half-life   - halves every halfLife seconds
+export type DecayCurve = 'linear' | 'exponential' | 'half-life';
+
 export const config = {
   key: 'C' as string,
-  decayRate: 0.15,
+  scale: major as Scale,
+
+  // Tension dynamics - how "sticky" unresolved notes feel
+  decayCurve: 'linear' as DecayCurve,
+  decayRate: 0.15,                                    // Per second (linear and exponential curves)
+  halfLife: 3,                                        // Seconds (half-life curve)
+  decayWeights: {} as Record<number, number>,         // Per degree, × decay speed (default 1)
+  accumulationWeights: {} as Record<number, number>,  // Per degree, × tension added (default 1)
+  maxTension: 1,                                      // Ceiling per degree
+  holdForNoteLength: false,                           // No decay for soundingTime after a strike (however long a key is held)
+  soundingTime: 0.5,                                  // Seconds a struck note counts as sounding (synth note length)
+
   minSize: 3,
   maxSize: 6,
 };
+
+setScale(config.scale);
@@ -0,0 +1,59 @@
+// Events - What the engine announces as it plays and decays
+// Renderers, audio and loggers subscribe instead of being called from each input path
+// Engine transitions are pure and return their events; the owner of the
+// current state emits them once it has adopted the new state
+
+import type { Resolution } from './engine';
+import type { ChordEvent, Cadence } from './harmony';
+
+// ============================================================================
+// EVENT TYPES
+// ============================================================================
+
+export type EngineEvent =
+  | { type: 'notePlayed'; degree: number; resolution: Resolution | null }
+  | { type: 'tensionAdded'; degree: number; amount: number; tension: number }
+  | { type: 'resolution'; resolution: Resolution }
+  | { type: 'tensionDecayed'; degree: number }  // Faded away without resolving
+  | { type: 'directionChanged'; direction: 'toward' | 'away' | 'none'; previous: 'toward' | 'away' | 'none' }
+  | { type: 'chordPlayed'; chord: ChordEvent }
+  | { type: 'cadence'; cadence: Cadence };
+
+export type EngineEventType = EngineEvent['type'];
+
+type EventOf<T extends EngineEventType> = Extract<EngineEvent, { type: T }>;
+type Listener<T extends EngineEventType> = (event: EventOf<T>) => void;
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+const listeners = new Map<EngineEventType, Set<(event: EngineEvent) => void>>();
+
+// Subscribe to one kind of event; returns an unsubscribe function
+export function on<T extends EngineEventType>(type: T, listener: Listener<T>): () => void {
+  let set = listeners.get(type);
+  if (!set) {
+    set = new Set();
+    listeners.set(type, set);
+  }
+
+  // Stored by type, so only events of this type ever reach it
+  const handler = (event: EngineEvent) => {
+    if (event.type === type) listener(event as EventOf<T>);
+  };
+  set.add(handler);
+
+  return () => {
+    set!.delete(handler);
+  };
+}
+
+export function emit(event: EngineEvent): void {
+  const set = listeners.get(event.type);
+  if (!set) return;
+
+  for (const listener of set) {
+    listener(event);
+  }
+}
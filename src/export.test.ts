@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sessionToMidi, audioBufferToWav } from './export';
+import type { Session } from './session';
+
+const ascii = (bytes: Uint8Array, from: number, to: number) => String.fromCharCode(...bytes.slice(from, to));
+
+test('sessionToMidi writes a two-track file with a note-on per played note', () => {
+  const session: Session = {
+    version: 1,
+    key: 'C',
+    scale: 'major',
+    events: [
+      { time: 0, type: 'note', degree: 1, source: 'click' },
+      { time: 500, type: 'note', degree: 5, source: 'click' },
+    ],
+  };
+  const bytes = sessionToMidi(session);
+
+  assert.equal(ascii(bytes, 0, 4), 'MThd');
+  assert.equal(bytes[11], 2);  // Track count: conductor + notes
+
+  const noteOns = bytes.filter((byte, i) => byte === 0x90 && bytes[i + 2] > 0);
+  assert.equal(noteOns.length, 2);
+});
+
+test('audioBufferToWav writes a PCM header and clipped 16-bit samples', () => {
+  const samples = [new Float32Array([0, 1, -1, 2]), new Float32Array([0.5, -0.5, 0, 0])];
+  const buffer = {
+    numberOfChannels: 2,
+    sampleRate: 44100,
+    length: 4,
+    getChannelData: (channel: number) => samples[channel],
+  } as unknown as AudioBuffer;
+
+  const bytes = audioBufferToWav(buffer);
+  const view = new DataView(bytes.buffer);
+
+  assert.equal(ascii(bytes, 0, 4), 'RIFF');
+  assert.equal(ascii(bytes, 8, 12), 'WAVE');
+  assert.equal(view.getUint32(24, true), 44100);
+  assert.equal(bytes.length, 44 + 4 * 2 * 2);
+  assert.equal(view.getInt16(44 + 2 * 2, true), 0x7fff);   // 1 in the left channel
+  assert.equal(view.getInt16(44 + 6 * 2, true), 0x7fff);   // 2, clipped to 1
+});
@@ -0,0 +1,282 @@
+// Export - Taking played sessions out of the playground
+// Standard MIDI Files: degrees become real notes in the session's key, with the
+// same octave placement and note lengths the synth used. WAV files: the session
+// rendered offline through the same synth, instrument and tension bus as live.
+
+import {
+  NOTE_DURATION,
+  CHORD_DURATION,
+  CHORD_STAGGER,
+  getInstrument,
+  scheduleDegree,
+  scheduleChord,
+} from './audio';
+import { createInitialState, decay, getTotalTension, type State } from './engine';
+import { degreeToMidiNote, keyRootNote } from './pitch';
+import { voiceChord, voicingSettings } from './voicing';
+import { simulateSession, downloadBlob, type Session } from './session';
+import { createSynth, type Instrument } from './synth';
+import { createTensionBus } from './sonify';
+import { createRng } from './autoplay';
+
+// ============================================================================
+// STANDARD MIDI FILE
+// ============================================================================
+
+export type MidiExportOptions = {
+  format: 0 | 1;      // 0 = one track; 1 = conductor track (tempo, markers) + notes
+  markers: boolean;   // Write resolutions and cadences as marker events
+  velocity: number;   // 1-127
+  channel: number;    // 0-15
+};
+
+const defaultMidiExportOptions: MidiExportOptions = {
+  format: 1,
+  markers: true,
+  velocity: 80,
+  channel: 0,
+};
+
+const TICKS_PER_QUARTER = 480;
+const MICROSECONDS_PER_QUARTER = 500000;  // 120 bpm: one tick ≈ 1.04 ms
+
+type TrackEvent = {
+  tick: number;
+  order: number;   // Tie-break at the same tick: meta, note-off, note-on
+  bytes: number[];
+};
+
+function msToTicks(ms: number): number {
+  return Math.round(ms * 1000 * TICKS_PER_QUARTER / MICROSECONDS_PER_QUARTER);
+}
+
+// Build an SMF for a session's notes and chords, in its keys and the active scale.
+// The caller makes sure the session's scale is active.
+export function sessionToMidi(session: Session, options: Partial<MidiExportOptions> = {}): Uint8Array<ArrayBuffer> {
+  const { format, markers, velocity, channel } = { ...defaultMidiExportOptions, ...options };
+  const noteEvents: TrackEvent[] = [];
+  const metaEvents: TrackEvent[] = [
+    { tick: 0, order: 0, bytes: metaEvent(0x03, textBytes('Harmonic Playground')) },
+    { tick: 0, order: 0, bytes: metaEvent(0x51, [0x07, 0xa1, 0x20]) },  // Tempo 500000 µs/quarter
+  ];
+
+  const addNote = (note: number, startMs: number, durationMs: number) => {
+    noteEvents.push(
+      { tick: msToTicks(startMs), order: 2, bytes: [0x90 | channel, note, velocity] },
+      { tick: msToTicks(startMs + durationMs), order: 1, bytes: [0x80 | channel, note, 0] },
+    );
+  };
+
+  // Chords voiced with the current settings, one after another like live
+  let previousVoicing: number[] | null = null;
+  let key = session.key;
+
+  for (const event of session.events) {
+    if (event.type === 'note') {
+      addNote(degreeToMidiNote(event.degree, key), event.time, NOTE_DURATION * 1000);
+    } else if (event.type === 'key') {
+      key = event.key;
+    } else {
+      const tones = voiceChord(event.degrees, voicingSettings, previousVoicing);
+      previousVoicing = tones;
+      tones.forEach((semitones, i) => {
+        addNote(keyRootNote(key) + semitones, event.time + i * CHORD_STAGGER * 1000, CHORD_DURATION * 1000);
+      });
+    }
+  }
+
+  if (markers) {
+    for (const step of simulateSession(session)) {
+      const tick = msToTicks(step.event.time);
+      if (step.event.type === 'key') {
+        metaEvents.push({ tick, order: 0, bytes: metaEvent(0x06, textBytes(`Key ${step.key}`)) });
+      }
+      for (const event of step.events) {
+        if (event.type === 'resolution') {
+          const { from, to, released } = event.resolution;
+          metaEvents.push({ tick, order: 0, bytes: metaEvent(0x06, textBytes(`Resolve ${from}->${to} (${released.toFixed(2)})`)) });
+        } else if (event.type === 'cadence') {
+          metaEvents.push({ tick, order: 0, bytes: metaEvent(0x06, textBytes(`${event.cadence.type} cadence`)) });
+        }
+      }
+    }
+  }
+
+  const tracks = format === 0
+    ? [encodeTrack([...metaEvents, ...noteEvents])]
+    : [encodeTrack(metaEvents), encodeTrack(noteEvents)];
+
+  const header = [
+    ...ascii('MThd'),
+    ...uint32(6),
+    ...uint16(format),
+    ...uint16(tracks.length),
+    ...uint16(TICKS_PER_QUARTER),
+  ];
+
+  return new Uint8Array([...header, ...tracks.flat()]);
+}
+
+function encodeTrack(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const data: number[] = [];
+  let lastTick = 0;
+
+  for (const event of sorted) {
+    data.push(...variableLength(event.tick - lastTick), ...event.bytes);
+    lastTick = event.tick;
+  }
+  data.push(0x00, ...metaEvent(0x2f, []));  // End of track
+
+  return [...ascii('MTrk'), ...uint32(data.length), ...data];
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...variableLength(data.length), ...data];
+}
+
+// MIDI variable-length quantity: 7 bits per byte, high bit = more follows
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  value >>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+    value >>= 7;
+  }
+  return bytes;
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, c => c.charCodeAt(0));
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+// ============================================================================
+// WAV AUDIO
+// ============================================================================
+
+export type WavRenderOptions = {
+  sampleRate: number;
+  tail: number;              // Seconds rendered after the last event, for releases and reverb
+  instrument: Instrument;    // Default: the one playing live
+  seed: number;              // Reverb and noise buffers - the same seed renders the same file
+};
+
+const defaultWavRenderOptions: Omit<WavRenderOptions, 'instrument'> = {
+  sampleRate: 44100,
+  tail: 2.5,
+  seed: 1,
+};
+
+const BUS_FPS = 30;  // How often the tension bus is moved along during a render
+
+// Render a session's notes and chords offline, in its key and the active scale.
+// The caller makes sure the session's scale is active.
+export async function renderSession(session: Session, options: Partial<WavRenderOptions> = {}): Promise<AudioBuffer> {
+  const { sampleRate, tail, instrument, seed } = {
+    ...defaultWavRenderOptions,
+    instrument: getInstrument(),
+    ...options,
+  };
+
+  const steps = simulateSession(session);
+  const end = (steps.length > 0 ? steps[steps.length - 1].event.time / 1000 : 0) + tail;
+  const context = new OfflineAudioContext(2, Math.ceil(end * sampleRate), sampleRate);
+  const bus = createTensionBus(context, createRng(seed));
+  const synth = createSynth(context, context.destination, bus);
+
+  // State at a time: the last step before it, decayed in one step (like presentAt)
+  const stateAt = (time: number): State => {
+    let i = steps.length - 1;
+    while (i >= 0 && steps[i].event.time / 1000 > time) i--;
+    return i < 0 ? createInitialState() : decay(steps[i].state, time - steps[i].event.time / 1000).state;
+  };
+
+  // Chords voiced with the current settings, one after another like live
+  let previousVoicing: number[] | null = null;
+
+  steps.forEach(({ event, key, events }, i) => {
+    const at = event.time / 1000;
+    const before = i === 0 ? createInitialState() : decay(steps[i - 1].state, at - steps[i - 1].event.time / 1000).state;
+
+    if (event.type === 'note') {
+      scheduleDegree(synth, event.degree, key, at, before.tensions.get(event.degree) ?? 0, i, instrument);
+    } else if (event.type === 'chord') {
+      const tones = voiceChord(event.degrees, voicingSettings, previousVoicing);
+      previousVoicing = tones;
+      scheduleChord(synth, tones, key, at, before.tensions.get(event.root) ?? 0, instrument);
+    }
+
+    for (const engineEvent of events) {
+      if (engineEvent.type === 'resolution') bus.release(Math.min(1, engineEvent.resolution.released), at);
+      if (engineEvent.type === 'cadence') bus.release(Math.min(1, engineEvent.cadence.released), at);
+    }
+  });
+
+  for (let frame = 0; frame <= end * BUS_FPS; frame++) {
+    const state = stateAt(frame / BUS_FPS);
+    bus.update({ total: getTotalTension(state), peak: Math.max(0, ...state.tensions.values()) }, frame / BUS_FPS);
+  }
+
+  return context.startRendering();
+}
+
+// 16-bit PCM WAV, channels interleaved
+export function audioBufferToWav(buffer: AudioBuffer): Uint8Array<ArrayBuffer> {
+  const { numberOfChannels: channels, sampleRate, length } = buffer;
+  const dataSize = length * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);                         // fmt chunk size
+  view.setUint16(20, 1, true);                          // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);  // Bytes per second
+  view.setUint16(32, channels * 2, true);               // Bytes per frame
+  view.setUint16(34, 16, true);                         // Bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, data[channel][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Uint8Array(view.buffer);
+}
+
+// ============================================================================
+// DOWNLOAD
+// ============================================================================
+
+export function downloadMidi(bytes: Uint8Array<ArrayBuffer>, filename: string): void {
+  downloadBlob(new Blob([bytes], { type: 'audio/midi' }), filename);
+}
+
+export function downloadWav(bytes: Uint8Array<ArrayBuffer>, filename: string): void {
+  downloadBlob(new Blob([bytes], { type: 'audio/wav' }), filename);
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarmonyState, playChordNotes, type HarmonicFunction } from './harmony';
+import { createInitialState } from './engine';
+import { buildChord } from './chords';
+
+type Played = { root: number; degrees: number[]; function?: HarmonicFunction };
+
+// Cadence type of the last chord in a progression (active scale: major)
+function cadenceOf(...chords: Played[]): string | null {
+  let state = createInitialState();
+  let harmony = createHarmonyState();
+  let cadence: string | null = null;
+
+  for (const chord of chords) {
+    const transition = playChordNotes(state, harmony, chord.root, chord.degrees, chord.function);
+    state = transition.state;
+    harmony = transition.harmony;
+    cadence = transition.chord.cadence?.type ?? null;
+  }
+  return cadence;
+}
+
+const I = { root: 1, degrees: [1, 3, 5] };
+const ii = { root: 2, degrees: [2, 4, 6] };
+const iii = { root: 3, degrees: [3, 5, 7] };
+const IV = { root: 4, degrees: [4, 6, 1] };
+const V = { root: 5, degrees: [5, 7, 2] };
+const V7 = { root: 5, degrees: [5, 7, 2, 4] };
+const vi = { root: 6, degrees: [6, 1, 3] };
+const vii = { root: 7, degrees: [7, 2, 4] };
+
+test('V and V7 onto I are authentic', () => {
+  assert.equal(cadenceOf(V, I), 'authentic');
+  assert.equal(cadenceOf(V7, I), 'authentic');
+});
+
+test('a secondary dominant onto its target is authentic', () => {
+  assert.equal(cadenceOf(buildChord(6, 'secondary'), vi), 'authentic');
+  assert.equal(cadenceOf(buildChord(2, 'secondary', true), ii), 'authentic');
+});
+
+test('vii° onto I is a weaker leading-tone cadence', () => {
+  assert.equal(cadenceOf(vii, I), 'leading-tone');
+});
+
+test('vii° onto iii and ♭VII onto I are not authentic', () => {
+  assert.equal(cadenceOf(vii, iii), null);
+  assert.notEqual(cadenceOf(buildChord(7, 'borrowed'), I), 'authentic');
+});
+
+test('V onto vi or ♭VI is deceptive', () => {
+  assert.equal(cadenceOf(V, vi), 'deceptive');
+  assert.equal(cadenceOf(V, buildChord(6, 'borrowed')), 'deceptive');
+});
+
+test('IV onto I is plagal, anything onto V is half', () => {
+  assert.equal(cadenceOf(IV, I), 'plagal');
+  assert.equal(cadenceOf(ii, V), 'half');
+});
@@ -0,0 +1,254 @@
+// Harmony - Chord-level layer on top of the melodic engine
+// Chords have a FUNCTION (tonic / subdominant / dominant), progressions build
+// tension through those functions, and cadences are how they let it go
+
+import {
+  playNote,
+  homeness,
+  decayValue,
+  config,
+  suggestionWeights,
+  strongestReason,
+  type State,
+  type Resolution,
+  type SuggestionReason,
+} from './engine';
+import { degreeAtSemitone } from './scales';
+import type { EngineEvent } from './events';
+
+// ============================================================================
+// HARMONIC FUNCTION
+// ============================================================================
+
+export type HarmonicFunction = 'tonic' | 'subdominant' | 'dominant';
+
+// Function of the chord built on each root degree
+const chordFunctions: Record<number, HarmonicFunction> = {
+  1: 'tonic',
+  3: 'tonic',        // Shares two notes with I
+  6: 'tonic',        // Shares two notes with I (and stands in for it)
+  2: 'subdominant',  // Predominant - sets up V
+  4: 'subdominant',
+  5: 'dominant',
+  7: 'dominant',     // vii° - V7 without its root
+};
+
+// Chromatic roots, by semitones above the tonic: mostly chords borrowed from
+// the parallel mode, doing the job of the diatonic chord they stand in for
+const alteredFunctions: Record<number, HarmonicFunction> = {
+  1: 'subdominant',  // ♭II - the Neapolitan, a predominant
+  3: 'tonic',        // ♭III - from the minor tonic's family
+  6: 'dominant',     // ♯iv° - leading-tone chord of V
+  8: 'subdominant',  // ♭VI - iv's neighbour, sets up V
+  10: 'dominant',    // ♭VII - the backdoor dominant
+};
+
+// How much tension a chord of each function carries
+const functionTension: Record<HarmonicFunction, number> = {
+  tonic: 0,
+  subdominant: 0.4,
+  dominant: 0.8,
+};
+
+// Function of a chord from its root alone. A chord that's spelled to do
+// something else (V/x is a dominant, whatever degree it's on) says so itself.
+export function getChordFunction(root: number): HarmonicFunction {
+  if (Number.isInteger(root)) return chordFunctions[root] ?? 'subdominant';
+  return alteredFunctions[config.scale.semitones[root] % 12] ?? 'subdominant';
+}
+
+// Triad stacked in thirds on a root, e.g. 5 → [5, 7, 2]
+export function triadDegrees(root: number): number[] {
+  return [0, 2, 4].map(step => ((root - 1 + step) % 7) + 1);
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+export type HarmonyState = {
+  lastRoot: number | null;
+  lastFunction: HarmonicFunction | null;
+  lastTarget: number | null;   // Where the last chord, if a real V or V/x, resolves to
+  progressionTension: number;  // 0-1, builds tonic → subdominant → dominant
+};
+
+export function createHarmonyState(): HarmonyState {
+  return {
+    lastRoot: null,
+    lastFunction: null,
+    lastTarget: null,
+    progressionTension: 0,
+  };
+}
+
+// A dominant-function chord with a major third is V (or V7) of the degree a
+// fifth below its root. vii° and the like have no major third, so no target.
+function dominantTarget(root: number, degrees: number[], chordFunction: HarmonicFunction): number | null {
+  if (chordFunction !== 'dominant') return null;
+
+  const semitones = config.scale.semitones;
+  const hasMajorThird = degrees.some(degree => (semitones[degree] - semitones[root] + 12) % 12 === 4);
+  return hasMajorThird ? degreeAtSemitone(semitones[root] - 7, config.scale) : null;
+}
+
+// ============================================================================
+// CADENCES
+// ============================================================================
+
+export type CadenceType = 'authentic' | 'leading-tone' | 'plagal' | 'half' | 'deceptive';
+
+// Same shape as a melodic Resolution (roots instead of degrees), so the UI
+// can give cadences the same resolve feedback
+export type Cadence = Resolution & {
+  type: CadenceType;
+};
+
+// Share of the progression's tension each cadence lets go
+const cadenceRelease: Record<CadenceType, number> = {
+  authentic: 1.0,  // V → I (or V/x → x): full stop
+  'leading-tone': 0.7,  // vii° → I: V7 without its root, a softer close
+  plagal: 0.6,     // IV → I: amen, gentler
+  deceptive: 0.3,  // V → vi or ♭VI: the ear was promised I
+  half: 0.2,       // → V: a comma, not a full stop
+};
+
+function detectCadence(harmony: HarmonyState, root: number): CadenceType | null {
+  const { lastRoot, lastFunction, lastTarget } = harmony;
+  if (lastRoot === null || lastRoot === root) return null;
+
+  // V → I, or V/x onto the x it was tonicising
+  if (lastTarget === root) return 'authentic';
+  if (lastRoot === 7 && lastFunction === 'dominant' && lastTarget === null && root === 1) return 'leading-tone';
+  // V onto vi, or onto ♭VI borrowed from the minor
+  if (lastTarget === 1 && (root === 6 || config.scale.semitones[root] % 12 === 8)) return 'deceptive';
+  if (lastRoot === 4 && root === 1) return 'plagal';
+  if (root === 5) return 'half';
+  return null;
+}
+
+// ============================================================================
+// CORE LOGIC
+// ============================================================================
+
+export type ChordEvent = {
+  root: number;
+  function: HarmonicFunction;
+  resolution: Resolution | null;  // Strongest voice-level resolution
+  cadence: Cadence | null;
+};
+
+export type ChordTransition = {
+  state: State;
+  harmony: HarmonyState;
+  chord: ChordEvent;
+  events: EngineEvent[];
+};
+
+// Play a chord: its tones go through the melodic engine (the V chord's leading
+// tone still wants to go home), then the progression is updated
+// Events: the engine's note events per voice, then cadence and chordPlayed
+export function playChordNotes(
+  state: State,
+  harmony: HarmonyState,
+  root: number,
+  degrees: number[],
+  chordFunction: HarmonicFunction = getChordFunction(root)
+): ChordTransition {
+  const events: EngineEvent[] = [];
+  let resolution: Resolution | null = null;
+
+  // Stable tones first, so they resolve what came before rather than the
+  // tension this same chord is about to add
+  const voices = [...degrees].sort((a, b) => (homeness[b] ?? 0) - (homeness[a] ?? 0));
+  for (const degree of voices) {
+    const voice = playNote(state, degree);
+    state = voice.state;
+    events.push(...voice.events);
+    if (voice.resolution && (!resolution || voice.resolution.released > resolution.released)) {
+      resolution = voice.resolution;
+    }
+  }
+
+  const type = detectCadence(harmony, root);
+  let progressionTension = harmony.progressionTension;
+  let cadence: Cadence | null = null;
+
+  if (type) {
+    const released = progressionTension * cadenceRelease[type];
+    cadence = { type, from: harmony.lastRoot!, to: root, released };
+    progressionTension -= released;
+    events.push({ type: 'cadence', cadence });
+  }
+
+  // Tonic settles the progression; anything else pushes it further from home
+  if (chordFunction === 'tonic') {
+    progressionTension *= 0.5;
+  } else {
+    progressionTension = Math.min(1, progressionTension * 0.5 + functionTension[chordFunction]);
+  }
+
+  const chord: ChordEvent = { root, function: chordFunction, resolution, cadence };
+  events.push({ type: 'chordPlayed', chord });
+
+  return {
+    state,
+    harmony: {
+      lastRoot: root,
+      lastFunction: chordFunction,
+      lastTarget: dominantTarget(root, degrees, chordFunction),
+      progressionTension,
+    },
+    chord,
+    events,
+  };
+}
+
+export function decayHarmony(harmony: HarmonyState, deltaTime: number): HarmonyState {
+  return {
+    ...harmony,
+    progressionTension: decayValue(harmony.progressionTension, deltaTime),
+  };
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+export type ChordSuggestion = {
+  root: number;
+  score: number;
+  reason: SuggestionReason | 'cadence';
+  cadence: CadenceType | null;
+};
+
+// Each diatonic triad played against the current state, best first. A cadence
+// counts like a resolution; so does tension its voices release.
+export function rankNextChords(state: State, harmony: HarmonyState): ChordSuggestion[] {
+  const suggestions = config.scale.enabledDegrees.map(root => {
+    const transition = playChordNotes(state, harmony, root, triadDegrees(root));
+
+    let resolves = 0;
+    let tension = 0;
+    for (const event of transition.events) {
+      if (event.type === 'resolution') resolves += event.resolution.released;
+      if (event.type === 'tensionAdded') tension += event.amount;
+    }
+    tension += Math.max(0, transition.harmony.progressionTension - harmony.progressionTension);
+
+    const parts = {
+      cadence: (transition.chord.cadence?.released ?? 0) * suggestionWeights.resolve,
+      resolve: resolves * suggestionWeights.resolve,
+      tension: tension * suggestionWeights.tension,
+    };
+
+    return {
+      root,
+      score: parts.cadence + parts.resolve + parts.tension,
+      reason: strongestReason(parts),
+      cadence: transition.chord.cadence?.type ?? null,
+    };
+  });
+
+  return suggestions.sort((a, b) => b.score - a.score);
+}
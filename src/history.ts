@@ -0,0 +1,120 @@
+// History - Undo/redo and time travel over immutable engine states
+// Every played note or chord is an entry holding the states either side of it.
+// Between entries only decay happens, and decay is pure, so the tension
+// landscape at any earlier moment can be rebuilt from the entry before it.
+
+import { decay, type State } from './engine';
+import { decayHarmony, type HarmonyState } from './harmony';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Everything the engine knows at one moment
+export type Snapshot = {
+  state: State;
+  harmony: HarmonyState;
+  key: string;  // Followed modulations move it, so undo must move it back
+};
+
+export type HistoryEntry = {
+  time: number;      // ms, same clock as the caller's (performance.now in the UI)
+  label: string;     // e.g. '7' or 'V', for display
+  before: Snapshot;  // Just before the input (decay already applied)
+  after: Snapshot;   // Just after it
+};
+
+export type History = {
+  start: number;            // When the session began
+  initial: Snapshot;
+  entries: HistoryEntry[];
+  cursor: number;           // Entries [0, cursor) are applied; the rest can be redone
+};
+
+export function createHistory(initial: Snapshot, start: number): History {
+  return { start, initial, entries: [], cursor: 0 };
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+// Add an entry; anything that had been undone is dropped (new branch)
+export function record(history: History, entry: HistoryEntry): History {
+  return {
+    ...history,
+    entries: [...history.entries.slice(0, history.cursor), entry],
+    cursor: history.cursor + 1,
+  };
+}
+
+export function canUndo(history: History): boolean {
+  return history.cursor > 0;
+}
+
+export function canRedo(history: History): boolean {
+  return history.cursor < history.entries.length;
+}
+
+// Step back over the last applied entry, returning the state from just before it
+export function undo(history: History): { history: History; snapshot: Snapshot } | null {
+  if (!canUndo(history)) return null;
+
+  const entry = history.entries[history.cursor - 1];
+  return {
+    history: { ...history, cursor: history.cursor - 1 },
+    snapshot: entry.before,
+  };
+}
+
+export function redo(history: History): { history: History; snapshot: Snapshot } | null {
+  if (!canRedo(history)) return null;
+
+  const entry = history.entries[history.cursor];
+  return {
+    history: { ...history, cursor: history.cursor + 1 },
+    snapshot: entry.after,
+  };
+}
+
+// ============================================================================
+// TIME TRAVEL
+// ============================================================================
+
+// Number of applied entries that had happened by `time`. Undone entries are
+// never travelled into; `limit` (default: the cursor) caps the count.
+export function entriesBefore(history: History, time: number, limit: number = history.cursor): number {
+  let count = 0;
+  while (count < limit && history.entries[count].time <= time) {
+    count++;
+  }
+  return count;
+}
+
+// Rebuild the engine state at any moment of the recorded session
+export function snapshotAt(history: History, time: number, limit: number = history.cursor): Snapshot {
+  const count = entriesBefore(history, time, limit);
+  const from = count > 0 ? history.entries[count - 1] : null;
+  const base = from ? from.after : history.initial;
+  const elapsed = Math.max(0, time - (from ? from.time : history.start)) / 1000;
+
+  return {
+    state: decay(base.state, elapsed).state,
+    harmony: decayHarmony(base.harmony, elapsed),
+    key: base.key,
+  };
+}
+
+// Jump back to `time`: later entries become redoable, the state is rebuilt.
+// A scrub passes the cursor it started from as `limit`, so it can move
+// forward again to there but never re-applies what had been undone.
+export function travelTo(
+  history: History,
+  time: number,
+  limit: number = history.cursor
+): { history: History; snapshot: Snapshot } {
+  return {
+    history: { ...history, cursor: entriesBefore(history, time, limit) },
+    snapshot: snapshotAt(history, time, limit),
+  };
+}
@@ -0,0 +1,168 @@
+// Instruments - Timbres for the synth
+// Built-in presets are small Web Audio patches; a sample set is any folder of
+// recordings named by pitch (C4.wav, F#3.mp3, 60.ogg…), played back from the
+// nearest sample
+
+import { sine, type Instrument } from './synth';
+
+// ============================================================================
+// PRESETS
+// ============================================================================
+
+// Soft piano: a few harmonics, the higher ones dying away faster
+const piano: Instrument = {
+  name: 'piano',
+  envelope: { attack: 0.005, decay: 1.2, sustain: 0.15, release: 0.3 },
+  createSources(context, frequency, at, destination) {
+    const partials = [1, 0.45, 0.2, 0.1, 0.05];
+
+    return partials.map((amplitude, i) => {
+      const osc = context.createOscillator();
+      const gain = context.createGain();
+      osc.frequency.setValueAtTime(frequency * (i + 1), at);
+      gain.gain.setValueAtTime(amplitude * 0.6, at);
+      gain.gain.setTargetAtTime(0, at, 1.2 / (i + 1));
+
+      osc.connect(gain);
+      gain.connect(destination);
+      return osc;
+    });
+  },
+};
+
+// Electric piano: two-operator FM, the bell-like modulation fading into a round tone
+const electricPiano: Instrument = {
+  name: 'electric piano',
+  envelope: { attack: 0.003, decay: 0.9, sustain: 0.3, release: 0.4 },
+  createSources(context, frequency, at, destination) {
+    const carrier = context.createOscillator();
+    const modulator = context.createOscillator();
+    const index = context.createGain();
+
+    carrier.frequency.setValueAtTime(frequency, at);
+    modulator.frequency.setValueAtTime(frequency, at);  // 1:1 ratio keeps it harmonic
+    index.gain.setValueAtTime(frequency * 2.5, at);
+    index.gain.setTargetAtTime(frequency * 0.3, at, 0.25);
+
+    modulator.connect(index);
+    index.connect(carrier.frequency);
+    carrier.connect(destination);
+    return [carrier, modulator];
+  },
+};
+
+// Pad: two detuned saws, softened by a low-pass, slow to swell and to fade
+const pad: Instrument = {
+  name: 'pad',
+  envelope: { attack: 0.4, decay: 0.6, sustain: 0.8, release: 1.2 },
+  createSources(context, frequency, at, destination) {
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(Math.min(1800, frequency * 4), at);
+    filter.Q.value = 0.7;
+    filter.connect(destination);
+
+    return [-7, 7].map(cents => {
+      const osc = context.createOscillator();
+      const gain = context.createGain();
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(frequency, at);
+      osc.detune.setValueAtTime(cents, at);
+      gain.gain.value = 0.35;
+
+      osc.connect(gain);
+      gain.connect(filter);
+      return osc;
+    });
+  },
+};
+
+// Pluck: a bright saw whose filter snaps shut, like a plucked string
+const pluck: Instrument = {
+  name: 'pluck',
+  envelope: { attack: 0.002, decay: 0.35, sustain: 0, release: 0.1 },
+  createSources(context, frequency, at, destination) {
+    const osc = context.createOscillator();
+    const filter = context.createBiquadFilter();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(frequency, at);
+
+    filter.type = 'lowpass';
+    filter.Q.value = 2;
+    filter.frequency.setValueAtTime(Math.min(8000, frequency * 12), at);
+    filter.frequency.setTargetAtTime(frequency * 1.5, at, 0.06);
+
+    osc.connect(filter);
+    filter.connect(destination);
+    return [osc];
+  },
+};
+
+export const instruments: Instrument[] = [sine, piano, electricPiano, pad, pluck];
+
+// ============================================================================
+// SAMPLES
+// ============================================================================
+
+const noteOffsets: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// MIDI note a sample file is named for: 'C4.wav', 'F#3.mp3', 'Bb2.ogg', '60.wav'
+export function sampleNote(filename: string): number | null {
+  const base = filename.replace(/\.[^.]+$/, '');
+
+  const named = base.match(/(?:^|[^A-Za-z])([A-G])([#b]?)(-?\d)(?!\d)/);
+  if (named) {
+    const accidental = named[2] === '#' ? 1 : named[2] === 'b' ? -1 : 0;
+    return (Number(named[3]) + 1) * 12 + noteOffsets[named[1]] + accidental;
+  }
+
+  const numbered = base.match(/(?:^|\D)(\d{2,3})$/);
+  if (numbered && Number(numbered[1]) <= 127) return Number(numbered[1]);
+
+  return null;
+}
+
+function midiFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+// Decode a multisample set. Files whose names carry no pitch are skipped;
+// resolves null if none do.
+export async function loadSampleInstrument(
+  context: BaseAudioContext,
+  files: File[],
+  name: string = 'samples'
+): Promise<Instrument | null> {
+  const samples: { frequency: number; buffer: AudioBuffer }[] = [];
+
+  for (const file of files) {
+    const note = sampleNote(file.name);
+    if (note === null) continue;
+
+    try {
+      const buffer = await context.decodeAudioData(await file.arrayBuffer());
+      samples.push({ frequency: midiFrequency(note), buffer });
+    } catch (err) {
+      console.warn(`Could not decode sample ${file.name}:`, err);
+    }
+  }
+
+  if (samples.length === 0) return null;
+
+  return {
+    name,
+    envelope: { attack: 0.003, decay: 0.1, sustain: 1, release: 0.3 },  // The recording shapes the note
+    createSources(context, frequency, at, destination) {
+      // Nearest sample in pitch, so it's stretched as little as possible
+      const sample = samples.reduce((best, s) =>
+        Math.abs(Math.log2(s.frequency / frequency)) < Math.abs(Math.log2(best.frequency / frequency)) ? s : best
+      );
+
+      const source = context.createBufferSource();
+      source.buffer = sample.buffer;
+      source.playbackRate.setValueAtTime(frequency / sample.frequency, at);
+      source.connect(destination);
+      return [source];
+    },
+  };
+}
@@ -7,27 +7,125 @@ import {
   decay,
   getTotalTension,
   getNodeColor,
+  rankNextDegrees,
   homeness,
   nodePositions,
   config,
+  setScale,
   type State,
   type Resolution,
 } from './engine';
-import { playDegree, playChord, initAudio, startMicrophoneTracking, stopMicrophoneTracking, setChordMode, getChordMode, initEssentia, loadChordModel } from './audio';
+import { scales, romanNumeral } from './scales';
+import {
+  createHarmonyState,
+  playChordNotes,
+  decayHarmony,
+  triadDegrees,
+  rankNextChords,
+  getChordFunction,
+  type HarmonyState,
+} from './harmony';
+import { on, emit, type EngineEvent } from './events';
+import {
+  createHistory,
+  record,
+  undo,
+  redo,
+  travelTo,
+  type History,
+  type Snapshot,
+} from './history';
+import {
+  startRecording,
+  recordInput,
+  recordKeyChange,
+  downloadSession,
+  parseSession,
+  parseSequence,
+  replaySession,
+  type Recorder,
+  type Session,
+  type SessionEvent,
+  type SessionInput,
+  type InputDevice,
+} from './session';
+import { requestMidiDevices, requestMidiOutputs, configureMidiOutput, midiOutputSettings } from './midi';
+import { createRng, arcPresets, arcAt, arcFromStroke, chooseMove, nextInterval, type TensionArc } from './autoplay';
+import {
+  createKeyTracker,
+  observePitches,
+  estimateKey,
+  nextModulation,
+  modulate,
+  type KeyEstimate,
+} from './tonality';
+import { sessionToMidi, downloadMidi, renderSession, audioBufferToWav, downloadWav } from './export';
+import { instruments, loadSampleInstrument } from './instruments';
+import { voicingSettings } from './voicing';
+import { droneSettings, droneModes, updateDrone } from './drone';
+import { sonificationSettings } from './sonify';
+import { chordSettings, chordTypes, buildChord, nameChord } from './chords';
+import { tuningSettings, tuningNames, referencePitches } from './tuning';
+import { degreePitchClass, frequencySemitones, locateFrequency, setRegister, getRegister } from './pitch';
+import {
+  playDegree,
+  playChord,
+  holdDegree,
+  releaseDegree,
+  initAudio,
+  getAudioContext,
+  startMicrophoneTracking,
+  stopMicrophoneTracking,
+  setChordMode,
+  getChordMode,
+  initEssentia,
+  loadChordModel,
+  getChordDegrees,
+  setOutputRoute,
+  getOutputRoute,
+  setMidiOutput,
+  getMidiOutput,
+  setInstrument,
+  getInstrument,
+  sonifyState,
+  playRelease,
+  type OutputRoute,
+  type HeldNote,
+} from './audio';
 
 const SVG_NS = 'http://www.w3.org/2000/svg';
 
-const romanNumerals: Record<number, string> = {
-  1: 'I',
-  2: 'ii',
-  3: 'iii',
-  4: 'IV',
-  5: 'V',
-  6: 'vi',
-  7: 'vii°',
-};
-
 let state: State;
+let harmony: HarmonyState;
+let history: History;
+
+// Time travel - while scrubbing, the present is frozen at an earlier moment
+let scrubbing = false;
+let timelineEnd = 0;  // Session length (ms clock) when the current scrub began
+let scrubLimit = 0;   // History cursor when the current scrub began - never scrub past it
+let timeline: HTMLInputElement | null = null;
+
+// The present is the anchor snapshot decayed to "now". Computing it in one
+// pure step from the last discrete change (not frame by frame) makes tension
+// depend on input timing alone, so a replayed session lands on the same values
+let anchor: { snapshot: Snapshot; time: number };
+
+// Session recording and replay
+let recorder: Recorder | null = null;
+let lastSession: Session | null = null;  // Most recently recorded or loaded, for export
+let cancelReplay: (() => void) | null = null;
+let sessionIndicator: HTMLDivElement | null = null;
+
+// Autoplay - T starts/stops, Shift+T picks the tension arc, Z draws one; ?seed=N replays a run
+const AUTOPLAY_DURATION = 30000;  // ms for one pass through the arc
+let autoplayTimer: number | null = null;
+let autoplayArc = 'arch';  // A preset name, or 'drawn'
+let drawnArc: TensionArc | null = null;
+let arcPad: HTMLCanvasElement | null = null;
+
+// MIDI keyboards (started when MIDI is switched on)
+let midiDevices: InputDevice[] = [];
+let stopMidiAccess: (() => void) | null = null;  // Set while MIDI is on
 let lastTime = 0;
 let nodeElements: Map<number, SVGGElement> = new Map();
 
@@ -45,6 +143,20 @@ type Particle = {
 let particles: Particle[] = [];
 let glitterGroup: SVGGElement;
 
+// Altered (chromatic) degrees - small ghost nodes, only visible while tense
+let alteredGroup: SVGGElement;
+let alteredElements: Map<number, SVGCircleElement> = new Map();
+
+// Note sounding while a node is held down
+let heldNote: HeldNote | null = null;
+
+// Suggestion halos - top next notes (solid) and next chord (dashed), H toggles
+const SUGGESTION_COUNT = 3;
+let showSuggestions = false;
+let haloGroup: SVGGElement;
+let noteHalos: SVGCircleElement[] = [];
+let chordHalo: SVGCircleElement;
+
 // Microphone tracking - burning light
 let micActive = false;
 let burningLight: SVGGElement | null = null;
@@ -60,33 +172,15 @@ const DWELL_THRESHOLD_MS = 150; // How long to hold before triggering
 // Chord mode - detected degrees
 let detectedChordDegrees: number[] = [];
 
+// Last chord the mic detector settled on (each new one is a chord event)
+let lastHeardChord: string | null = null;
+
 // Detected chord name display
 let chordNameElement: HTMLDivElement | null = null;
 
 // Chromatic note - adjacent degrees that could resolve to
 let chromaticAdjacentDegrees: number[] = [];
 
-// Root frequencies for each key (middle octave) - all chromatic keys
-const rootFrequencies: Record<string, number> = {
-  'C': 261.63,
-  'C#': 277.18,
-  'Db': 277.18,
-  'D': 293.66,
-  'D#': 311.13,
-  'Eb': 311.13,
-  'E': 329.63,
-  'F': 349.23,
-  'F#': 369.99,
-  'Gb': 369.99,
-  'G': 392.0,
-  'G#': 415.30,
-  'Ab': 415.30,
-  'A': 440.0,
-  'A#': 466.16,
-  'Bb': 466.16,
-  'B': 493.88,
-};
-
 // Key cycles - what each natural key cycles through when pressed repeatedly
 const keyCycles: Record<string, string[]> = {
   'C': ['C', 'C#'],
@@ -106,96 +200,46 @@ const keyCycleIndex: Record<string, number> = {
 // Key indicator element
 let keyIndicator: HTMLDivElement | null = null;
 
-function getRootHz(): number {
-  return rootFrequencies[config.key] || 261.63;
-}
+// Scale indicator element
+let scaleIndicator: HTMLDivElement | null = null;
+
+// Key finding - estimate shown under the scale; K toggles following modulations
+let keyTracker = createKeyTracker();
+let followModulations = false;
+let keyEstimateIndicator: HTMLDivElement | null = null;
 
 // Result type for pitch position
 type PitchPosition = {
   x: number;
   y: number;
   inKey: boolean;
-  degree: number | null;
+  degree: number | null;     // Scale degree, or altered degree for chromatic notes close to a semitone
   adjacentDegrees: number[]; // For chromatic notes: the two scale degrees it sits between
 };
 
 // Convert Hz to continuous position in radial space
 function hzToPosition(hz: number): PitchPosition {
-  // Guard against invalid Hz
-  if (!hz || hz <= 0 || !isFinite(hz)) {
+  const location = locateFrequency(hz);
+  if (!location) {
     return { x: 50, y: 50, inKey: true, degree: null, adjacentDegrees: [] };
   }
 
-  // Convert Hz to semitones from C
-  const semitones = 12 * Math.log2(hz / getRootHz());
-
-  if (!isFinite(semitones)) {
-    return { x: 50, y: 50, inKey: true, degree: null, adjacentDegrees: [] };
-  }
-
-  // Normalize to one octave (0-12)
-  let octaveSemitones = ((semitones % 12) + 12) % 12;
-
-  // Handle wrap-around: if very close to 12, treat as 0
-  if (octaveSemitones > 11.5) {
-    octaveSemitones = 0;
-  }
-
-  // Map semitones to scale degrees (major scale)
-  // C=0, D=2, E=4, F=5, G=7, A=9, B=11
-  const scaleDegrees = [
-    { semi: 0, degree: 1 },   // C
-    { semi: 2, degree: 2 },   // D
-    { semi: 4, degree: 3 },   // E
-    { semi: 5, degree: 4 },   // F
-    { semi: 7, degree: 5 },   // G
-    { semi: 9, degree: 6 },   // A
-    { semi: 11, degree: 7 },  // B
-  ];
-
-  // Find lower and upper adjacent scale degrees
-  let lowerDegree = scaleDegrees[scaleDegrees.length - 1]; // B (wraps from C)
-  let upperDegree = scaleDegrees[0]; // C
-
-  for (let i = 0; i < scaleDegrees.length; i++) {
-    if (scaleDegrees[i].semi <= octaveSemitones) {
-      lowerDegree = scaleDegrees[i];
-      upperDegree = scaleDegrees[(i + 1) % scaleDegrees.length];
-    }
-  }
-
-  // Calculate distance to lower degree
-  let distToLower = octaveSemitones - lowerDegree.semi;
-  if (distToLower < 0) distToLower += 12; // Handle wrap
-
-  // Gap between the two scale degrees
-  let gap = upperDegree.semi - lowerDegree.semi;
-  if (gap <= 0) gap += 12; // Handle wrap (B to C)
-
-  // How far between the two degrees (0 = at lower, 1 = at upper)
-  const t = distToLower / gap;
-
-  // Check if we're close enough to snap to a scale degree
-  const distToNearest = Math.min(distToLower, gap - distToLower);
-  const inKey = distToNearest < 0.25;
-
-  if (inKey) {
-    // Snap to the nearest scale degree
-    const nearestDegree = distToLower < (gap - distToLower) ? lowerDegree : upperDegree;
-    const pos = nodePositions[nearestDegree.degree];
-    return { x: pos.x, y: pos.y, inKey: true, degree: nearestDegree.degree, adjacentDegrees: [] };
+  if (location.inKey) {
+    const pos = nodePositions[location.degree!];
+    return { x: pos.x, y: pos.y, inKey: true, degree: location.degree, adjacentDegrees: [] };
   }
 
   // Chromatic note: interpolate position between the two adjacent scale degrees
-  const lowerPos = nodePositions[lowerDegree.degree];
-  const upperPos = nodePositions[upperDegree.degree];
+  const lowerPos = nodePositions[location.lower];
+  const upperPos = nodePositions[location.upper];
+  const t = location.between;
 
   return {
     x: lowerPos.x + (upperPos.x - lowerPos.x) * t,
     y: lowerPos.y + (upperPos.y - lowerPos.y) * t,
     inKey: false,
-    degree: null,
-    adjacentDegrees: [lowerDegree.degree, upperDegree.degree]
+    degree: location.degree,
+    adjacentDegrees: [location.lower, location.upper]
   };
 }
 
@@ -247,7 +291,8 @@ function updateParticles(deltaTime: number) {
 }
 
 async function init() {
-  state = createInitialState();
+  resetSession();
+  subscribeToEngine();
 
   // Initialize Essentia.js for chord detection (async WASM load)
   initEssentia().then(ready => {
@@ -288,6 +333,21 @@ async function init() {
   keyIndicator.textContent = config.key;
   document.body.appendChild(keyIndicator);
 
+  // Create scale indicator element
+  scaleIndicator = document.createElement('div');
+  scaleIndicator.id = 'scale-indicator';
+  scaleIndicator.textContent = config.scale.name;
+  document.body.appendChild(scaleIndicator);
+
+  // Create key estimate element
+  keyEstimateIndicator = document.createElement('div');
+  keyEstimateIndicator.id = 'key-estimate';
+  document.body.appendChild(keyEstimateIndicator);
+
+  // Concert pitch other than the presets: ?a4=438
+  const a4 = Number(new URLSearchParams(location.search).get('a4'));
+  if (a4 >= 400 && a4 <= 480) tuningSettings.reference = a4;
+
   const canvas = document.getElementById('canvas') as unknown as SVGSVGElement;
 
   // Create glitter layer (behind nodes)
@@ -295,6 +355,27 @@ async function init() {
   glitterGroup.setAttribute('id', 'glitter');
   canvas.appendChild(glitterGroup);
 
+  // Create altered degree layer (behind nodes)
+  alteredGroup = document.createElementNS(SVG_NS, 'g');
+  alteredGroup.setAttribute('id', 'altered');
+  canvas.appendChild(alteredGroup);
+  buildAlteredNodes();
+
+  // Create suggestion halo layer (behind nodes)
+  haloGroup = document.createElementNS(SVG_NS, 'g');
+  haloGroup.setAttribute('id', 'suggestions');
+  haloGroup.style.display = 'none';
+  for (let i = 0; i < SUGGESTION_COUNT; i++) {
+    const halo = document.createElementNS(SVG_NS, 'circle');
+    halo.classList.add('suggestion-halo');
+    haloGroup.appendChild(halo);
+    noteHalos.push(halo);
+  }
+  chordHalo = document.createElementNS(SVG_NS, 'circle');
+  chordHalo.classList.add('suggestion-halo', 'chord');
+  haloGroup.appendChild(chordHalo);
+  canvas.appendChild(haloGroup);
+
   // Create burning light (for mic input)
   burningLight = document.createElementNS(SVG_NS, 'g');
   burningLight.setAttribute('id', 'burning-light');
@@ -340,35 +421,65 @@ async function init() {
 
     // Roman numeral label
     const label = document.createElementNS(SVG_NS, 'text');
-    label.setAttribute('x', String(pos.x));
-    label.setAttribute('y', String(pos.y));
     label.setAttribute('text-anchor', 'middle');
     label.setAttribute('dominant-baseline', 'central');
     label.setAttribute('fill', 'rgba(255, 255, 255, 0.9)');
     label.setAttribute('font-family', 'Georgia, serif');
-    label.setAttribute('font-size', String(size * 0.5));
     label.setAttribute('pointer-events', 'none');
-    label.textContent = romanNumerals[degree];
 
     group.appendChild(circle);
     group.appendChild(label);
     canvas.appendChild(group);
     nodeElements.set(degree, group);
 
-    // Click handler (shift+click for chord)
-    group.addEventListener('click', (e) => onNodeClick(degree, e.shiftKey));
+    // Click handler (shift+click for chord, alt+shift+click flips the seventh)
+    group.addEventListener('pointerdown', (e) => onNodePress(degree, e.shiftKey, e.altKey));
   }
 
+  updateNodeLabels();
+
   // Add burning light on top
   canvas.appendChild(burningLight!);
 
+  // Timeline scrubber - drag back to see the tension landscape at any moment
+  timeline = document.createElement('input');
+  timeline.id = 'timeline';
+  timeline.type = 'range';
+  timeline.min = '0';
+  timeline.max = '1000';
+  timeline.value = '1000';
+  timeline.addEventListener('input', () => scrubTo(Number(timeline!.value) / 1000));
+  document.body.appendChild(timeline);
+
+  // Recording / replay indicator
+  sessionIndicator = document.createElement('div');
+  sessionIndicator.id = 'session-indicator';
+  document.body.appendChild(sessionIndicator);
+
   // Unlock audio on first interaction (Safari requirement)
   document.addEventListener('click', initAudio, { once: true });
 
+  // Letting go anywhere ends a held note
+  window.addEventListener('pointerup', releaseHeldNote);
+  window.addEventListener('pointercancel', releaseHeldNote);
+
   // Keyboard handler for mic toggle and key changes
   const keys = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
 
   document.addEventListener('keydown', async (e) => {
+    // Undo / redo (Cmd/Ctrl+Z, Cmd/Ctrl+Shift+Z or Cmd/Ctrl+Y)
+    if (e.metaKey || e.ctrlKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        stepHistory(undo(history));
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        stepHistory(redo(history));
+      }
+      return;  // Never treat shortcuts as key changes
+    }
+
     // Mic toggle
     if (e.key === 'm' || e.key === 'M') {
       if (micActive) {
@@ -383,6 +494,10 @@ async function init() {
           currentPitchHz = hz;
           detectedChordDegrees = chordDegrees;
           updateChordDisplay(chordName, chordQuality);
+          if (chordName !== lastHeardChord) {
+            lastHeardChord = chordName;
+            if (chordName) onChordHeard(chordName);
+          }
         });
         if (success) {
           micActive = true;
@@ -410,12 +525,186 @@ async function init() {
       }
 
       config.key = cycle[keyCycleIndex[keyUpper]];
-      state = createInitialState(); // Reset state for new key
+      resetSession(); // Reset state for new key
       updateKeyIndicator();
+      updateDrone();
       updateVisuals();
       console.log('Key changed to:', config.key);
     }
 
+    // Scale cycle
+    if (e.key === 's' || e.key === 'S') {
+      const nextIndex = (scales.indexOf(config.scale) + 1) % scales.length;
+      setScale(scales[nextIndex]);
+      resetSession(); // Old tensions don't mean the same thing here
+      updateScaleIndicator();
+      updateNodeLabels();
+      buildAlteredNodes();
+      updateDrone();  // A pedal degree may sit elsewhere in the new scale
+      updateVisuals();
+      console.log('Scale changed to:', config.scale.name);
+    }
+
+    // Session recording toggle
+    if (e.key === 'r' || e.key === 'R') {
+      toggleRecording();
+    }
+
+    // Load a session file and replay it
+    if (e.key === 'l' || e.key === 'L') {
+      pickSessionFile();
+    }
+
+    // Autoplay toggle / arc choice
+    if (e.key === 't' || e.key === 'T') {
+      if (e.shiftKey) {
+        const arcs = [...Object.keys(arcPresets), ...(drawnArc ? ['drawn'] : [])];
+        autoplayArc = arcs[(arcs.indexOf(autoplayArc) + 1) % arcs.length];
+        console.log('Autoplay arc:', autoplayArc);
+      } else {
+        toggleAutoplay();
+      }
+    }
+
+    // Draw a tension arc for autoplay (Z again puts the pad away)
+    if (e.key === 'z' || e.key === 'Z') {
+      toggleArcPad();
+    }
+
+    // Instrument: N cycles the presets, Shift+N loads a sample set from disk
+    if (e.key === 'n' || e.key === 'N') {
+      if (e.shiftKey) {
+        pickSampleFiles();
+      } else {
+        const next = instruments[(instruments.indexOf(getInstrument()) + 1) % instruments.length];
+        setInstrument(next);
+        console.log('Instrument:', next.name);
+      }
+    }
+
+    // Chord voicing: V cycles root position → each inversion (3rd with sevenths) → smooth,
+    // Shift+V switches close/open, J doubles the root in the bass
+    if (e.key === 'v' || e.key === 'V') {
+      if (e.shiftKey) {
+        voicingSettings.spread = voicingSettings.spread === 'close' ? 'open' : 'close';
+      } else if (voicingSettings.smooth) {
+        voicingSettings.smooth = false;
+        voicingSettings.inversion = 0;
+      } else if (voicingSettings.inversion >= buildChord(1).degrees.length - 1) {
+        // Past the last inversion of the chord shift-click builds (a seventh has three)
+        voicingSettings.smooth = true;
+      } else {
+        voicingSettings.inversion++;
+      }
+      logVoicing();
+    }
+
+    if (e.key === 'j' || e.key === 'J') {
+      voicingSettings.bass = !voicingSettings.bass;
+      logVoicing();
+    }
+
+    // Tuning: U cycles equal → just → Pythagorean → meantone, Shift+U steps the
+    // A4 reference through common concert pitches (?a4=N sets any other)
+    if (e.key === 'u' || e.key === 'U') {
+      if (e.shiftKey) {
+        const index = referencePitches.indexOf(tuningSettings.reference);
+        tuningSettings.reference = referencePitches[(index + 1) % referencePitches.length];
+      } else {
+        tuningSettings.tuning = tuningNames[(tuningNames.indexOf(tuningSettings.tuning) + 1) % tuningNames.length];
+      }
+      updateDrone();
+      console.log(`Tuning: ${tuningSettings.tuning}, A4 = ${tuningSettings.reference} Hz`);
+    }
+
+    // Drone: Q cycles off → tonic → tonic + fifth → dominant pedal → pedal,
+    // Shift+Q moves the pedal to the next degree
+    if (e.key === 'q' || e.key === 'Q') {
+      initAudio();
+      if (e.shiftKey) {
+        const degrees = config.scale.enabledDegrees;
+        droneSettings.pedalDegree = degrees[(degrees.indexOf(droneSettings.pedalDegree) + 1) % degrees.length];
+        droneSettings.mode = 'pedal';
+      } else {
+        droneSettings.mode = droneModes[(droneModes.indexOf(droneSettings.mode) + 1) % droneModes.length];
+      }
+      updateDrone();
+      console.log('Drone:', droneSettings.mode === 'pedal'
+        ? `pedal on ${config.scale.degreeNames[droneSettings.pedalDegree]}`
+        : droneSettings.mode);
+    }
+
+    // Tension sonification toggle (the synth's filter, detune, space and level)
+    if (e.key === 'w' || e.key === 'W') {
+      sonificationSettings.enabled = !sonificationSettings.enabled;
+      console.log(`Sonification ${sonificationSettings.enabled ? 'ON' : 'OFF'}`);
+    }
+
+    // Chord picker: Y cycles what shift-click builds (triad, sus4, sus2, V/x,
+    // borrowed), Shift+Y adds or drops the seventh
+    if (e.key === 'y' || e.key === 'Y') {
+      if (e.shiftKey) {
+        chordSettings.seventh = !chordSettings.seventh;
+      } else {
+        chordSettings.type = chordTypes[(chordTypes.indexOf(chordSettings.type) + 1) % chordTypes.length];
+      }
+      console.log(`Shift-click chords: ${chordSettings.type}${chordSettings.seventh ? ' + seventh' : ''} (e.g. ${buildChord(5).name})`);
+    }
+
+    // Register: [ and ] move everything down / up an octave
+    if (e.key === '[' || e.key === ']') {
+      setRegister(getRegister() + (e.key === ']' ? 1 : -1));
+      console.log('Register:', getRegister() > 0 ? `+${getRegister()}` : getRegister());
+    }
+
+    // Suggestion halos toggle
+    if (e.key === 'h' || e.key === 'H') {
+      showSuggestions = !showSuggestions;
+      haloGroup.style.display = showSuggestions ? '' : 'none';
+      console.log(`Suggestions ${showSuggestions ? 'ON' : 'OFF'}`);
+    }
+
+    // Follow modulations toggle
+    if (e.key === 'k' || e.key === 'K') {
+      followModulations = !followModulations;
+      updateKeyEstimate(estimateKey(keyTracker, clock()));
+      console.log(`Follow modulations ${followModulations ? 'ON' : 'OFF'}`);
+    }
+
+    // MIDI input toggle
+    if (e.key === 'i' || e.key === 'I') {
+      toggleMidi();
+    }
+
+    // Output routing: O cycles synth → both → MIDI, Shift+O picks the next MIDI output
+    if (e.key === 'o' || e.key === 'O') {
+      if (e.shiftKey) {
+        selectNextMidiOutput();
+      } else {
+        cycleOutputRoute();
+      }
+    }
+
+    // MIDI output: , steps the channel, . the touch (velocity and note length)
+    if (e.key === ',') {
+      configureMidiOutput({ channel: (midiOutputSettings.channel + 1) % 16 });
+      logMidiOutput();
+    }
+    if (e.key === '.') {
+      const index = midiTouches.findIndex(touch => touch.velocity === midiOutputSettings.velocity);
+      configureMidiOutput(midiTouches[(index + 1) % midiTouches.length]);
+      logMidiOutput();
+    }
+
+    // Export the current (or last) session: X as a MIDI file, Shift+X rendered to WAV
+    if (e.key === 'x' || e.key === 'X') {
+      if (e.shiftKey) {
+        exportWav();
+      } else {
+        exportMidi();
+      }
+    }
+
     // Chord mode toggle
     if (e.key === 'p' || e.key === 'P') {
       const newMode = !getChordMode();
@@ -440,52 +729,639 @@ async function init() {
   requestAnimationFrame(animate);
 }
 
-function onNodeClick(degree: number, shift: boolean = false) {
+function logVoicing() {
+  const { inversion, spread, bass, smooth } = voicingSettings;
+  const position = smooth ? 'smooth' : ['root position', '1st inversion', '2nd inversion', '3rd inversion'][inversion];
+  console.log(`Voicing: ${position}, ${spread}${bass ? ', bass' : ''}`);
+}
+
+// A note rings for as long as the node is held; chords are one-shot and
+// built the way the chord picker says (see chords.ts)
+function onNodePress(degree: number, shift: boolean = false, alt: boolean = false) {
   initAudio();
 
   if (shift) {
-    playChord(degree);
+    const chord = buildChord(degree, chordSettings.type, chordSettings.seventh !== alt);
+    playChord(chord.degrees);
+    // The function is only recorded when it isn't the root's usual one (V/x)
+    const unusual = chord.function !== getChordFunction(chord.root) ? { function: chord.function } : {};
+    input({ type: 'chord', root: chord.root, degrees: chord.degrees, ...unusual, source: 'shift-click' });
+    console.log('Chord:', chord.name);
   } else {
-    playDegree(degree);
+    releaseHeldNote();
+    heldNote = holdDegree(degree);
+    input({ type: 'note', degree, source: 'click' });
+  }
+}
+
+function releaseHeldNote() {
+  if (heldNote) {
+    releaseDegree(heldNote);
+    heldNote = null;
   }
+}
 
-  // Spawn glitter
-  spawnGlitter(degree);
+// Chord the mic detector settled on - feed it to the harmony layer
+function onChordHeard(chordName: string) {
+  const degrees = getChordDegrees(chordName);
+  if (!degrees) return;
+
+  input({ type: 'chord', root: degrees[0], degrees, source: 'mic' });
+}
 
-  const resolution = playNote(state, degree);
+// ============================================================================
+// AUTOPLAY
+// ============================================================================
 
-  if (resolution) {
-    triggerResolutionFeedback(resolution);
+// Moves are stamped with their scheduled times (not when the timer fired), so
+// the same seed makes the same choices against the same decayed state
+function toggleAutoplay() {
+  if (autoplayTimer !== null) {
+    stopAutoplay();
+    console.log('Autoplay stopped');
+    return;
   }
 
-  // Log state
-  const tensionList = Array.from(state.tensions.entries())
-    .map(([d, t]) => `${d}:${t.toFixed(2)}`)
-    .join(' ');
+  const seed = Number(new URLSearchParams(location.search).get('seed')) || Math.floor(Math.random() * 2 ** 32);
+  const rng = createRng(seed);
+  const arc = autoplayArc === 'drawn' && drawnArc ? drawnArc : arcPresets[autoplayArc];
+  const start = clock();
+  let time = start;
+
+  initAudio();
+  console.log(`Autoplay: ${autoplayArc} arc, seed ${seed}`);
+
+  const step = () => {
+    const progress = (time - start) / AUTOPLAY_DURATION;
+
+    // The arc is over - close on the tonic
+    if (progress >= 1) {
+      performMove({ type: 'chord', root: 1, degrees: triadDegrees(1), source: 'autoplay' }, time);
+      autoplayTimer = null;
+      console.log('Autoplay finished');
+      return;
+    }
+
+    const target = arcAt(arc, progress);
+    performMove(chooseMove(presentAt(time), target, rng), time);
 
-  console.log(
-    `Note ${degree} | ` +
-    `home: ${homeness[degree].toFixed(1)} | ` +
-    `dir: ${state.direction} | ` +
-    `tension: [${tensionList || 'none'}]` +
-    (resolution ? ` | RESOLVED ${resolution.from}→${resolution.to}` : '')
-  );
+    time += nextInterval(target, rng);
+    autoplayTimer = window.setTimeout(step, Math.max(0, time - performance.now()));
+  };
+
+  step();
+}
+
+function stopAutoplay() {
+  if (autoplayTimer !== null) {
+    clearTimeout(autoplayTimer);
+    autoplayTimer = null;
+  }
+}
+
+// A pad to drag an arc across: left to right is the whole run, higher is tenser.
+// Letting go makes it the autoplay arc and puts the pad away.
+function toggleArcPad() {
+  if (arcPad) {
+    arcPad.remove();
+    arcPad = null;
+    return;
+  }
+
+  const pad = document.createElement('canvas');
+  pad.id = 'arc-pad';
+  document.body.appendChild(pad);
+  pad.width = pad.clientWidth;
+  pad.height = pad.clientHeight;
+  arcPad = pad;
+
+  const pen = pad.getContext('2d')!;
+  pen.strokeStyle = 'rgba(255, 200, 100, 0.8)';
+  pen.lineWidth = 2;
+  let stroke: { x: number; y: number }[] = [];
+
+  const pointAt = (e: PointerEvent) => ({ x: e.offsetX / pad.width, y: e.offsetY / pad.height });
+
+  pad.addEventListener('pointerdown', (e) => {
+    pad.setPointerCapture(e.pointerId);
+    pen.clearRect(0, 0, pad.width, pad.height);
+    pen.beginPath();
+    pen.moveTo(e.offsetX, e.offsetY);
+    stroke = [pointAt(e)];
+  });
+
+  pad.addEventListener('pointermove', (e) => {
+    if (stroke.length === 0) return;
+    pen.lineTo(e.offsetX, e.offsetY);
+    pen.stroke();
+    stroke.push(pointAt(e));
+  });
+
+  pad.addEventListener('pointerup', () => {
+    const arc = arcFromStroke(stroke);
+    stroke = [];
+    if (!arc) {
+      console.log('Draw across most of the pad, left to right');
+      return;
+    }
+
+    drawnArc = arc;
+    autoplayArc = 'drawn';
+    toggleArcPad();
+    console.log(`Autoplay arc: drawn (${arc.length} points)`);
+  });
+}
+
+// Sound it and play it through the engine, like a click
+function performMove(move: SessionInput, time: number) {
+  if (move.type === 'note') {
+    playDegree(move.degree);
+  } else {
+    playChord(move.degrees);
+  }
+  input(move, time);
+}
+
+// ============================================================================
+// MIDI INPUT
+// ============================================================================
+
+async function toggleMidi() {
+  if (stopMidiAccess) {
+    stopMidiAccess();
+    stopMidiAccess = null;
+    midiDevices.forEach(device => device.stop());
+    midiDevices = [];
+    console.log('MIDI OFF');
+    return;
+  }
+
+  initAudio();
+  stopMidiAccess = await requestMidiDevices(device => {
+    device.start(onMidiInput);
+    midiDevices.push(device);
+    console.log('MIDI input connected:', device.name);
+  });
+  if (stopMidiAccess) {
+    console.log('MIDI ON - play your keyboard');
+  }
+}
+
+// Keyboard notes sound and land exactly like clicks
+function onMidiInput(event: SessionInput) {
+  if (event.type === 'note') {
+    playDegree(event.degree);
+  } else {
+    playChord(event.degrees);
+  }
+  input(event);
+}
+
+// ============================================================================
+// MIDI OUTPUT
+// ============================================================================
+
+const outputRoutes: OutputRoute[] = ['synth', 'both', 'midi'];
+
+async function cycleOutputRoute() {
+  const next = outputRoutes[(outputRoutes.indexOf(getOutputRoute()) + 1) % outputRoutes.length];
+
+  if (next !== 'synth' && !getMidiOutput()) {
+    const outputs = await requestMidiOutputs();
+    if (outputs.length === 0) {
+      console.log('No MIDI outputs found - staying on the synth');
+      return;
+    }
+    setMidiOutput(outputs[0]);
+  }
+
+  setOutputRoute(next);
+  console.log(`Output: ${next}${next !== 'synth' ? ` → ${getMidiOutput()!.name}` : ''}`);
+}
 
+// Velocity and note length together, soft and long to hard and short
+const midiTouches = [
+  { velocity: 50, noteLength: 1 },
+  { velocity: 90, noteLength: 0.5 },
+  { velocity: 120, noteLength: 0.2 },
+];
+
+function logMidiOutput() {
+  const { channel, velocity, noteLength } = midiOutputSettings;
+  console.log(`MIDI out: channel ${channel + 1}, velocity ${velocity}, ${noteLength}s notes`);
+}
+
+async function selectNextMidiOutput() {
+  const outputs = await requestMidiOutputs();
+  if (outputs.length === 0) {
+    console.log('No MIDI outputs found');
+    return;
+  }
+
+  const current = outputs.findIndex(port => port.name === getMidiOutput()?.name);
+  const port = outputs[(current + 1) % outputs.length];
+  setMidiOutput(port);
+  console.log('MIDI output:', port.name);
+}
+
+// ============================================================================
+// SESSION - present state, history and time travel
+// ============================================================================
+
+// Whole milliseconds, so time differences are exact and replays match bit for bit
+function clock(): number {
+  return Math.round(performance.now());
+}
+
+function resetSession(time: number = clock()) {
+  state = createInitialState();
+  harmony = createHarmonyState();
+  history = createHistory({ state, harmony, key: config.key }, time);
+  anchor = { snapshot: { state, harmony, key: config.key }, time };
+  keyTracker = createKeyTracker();
+  updateKeyEstimate(null);
+  stopScrubbing();
+}
+
+function presentAt(time: number): Snapshot {
+  const elapsed = Math.max(0, time - anchor.time) / 1000;
+  return {
+    state: decay(anchor.snapshot.state, elapsed).state,
+    harmony: decayHarmony(anchor.snapshot.harmony, elapsed),
+    key: anchor.snapshot.key,
+  };
+}
+
+// Every input path ends here: recorded if recording, one history entry per note or chord
+function input(event: SessionInput, time: number = clock()) {
+  if (recorder) {
+    recordInput(recorder, event, time);
+  }
+
+  const before = presentAt(time);
+  announceFaded(before.state);
+
+  if (event.type === 'note') {
+    const transition = playNote(before.state, event.degree);
+    const label = config.scale.degreeNames[event.degree] ?? String(event.degree);
+    commit(label, time, before, { ...before, state: transition.state }, transition.events);
+  } else {
+    const transition = playChordNotes(before.state, before.harmony, event.root, event.degrees, event.function);
+    commit(nameChord(event.degrees), time, before, { ...before, state: transition.state, harmony: transition.harmony }, transition.events);
+  }
+
+  trackKey(event.type === 'note' ? [event.degree] : event.degrees, time);
+}
+
+// Feed what was just played to the key finder, and move the key with it if following
+function trackKey(degrees: number[], time: number) {
+  keyTracker = observePitches(keyTracker, degrees.map(degree => degreePitchClass(degree, config.key)), time);
+  const estimate = estimateKey(keyTracker, time);
+
+  if (followModulations) {
+    const step = nextModulation(keyTracker, estimate, config.key);
+    keyTracker = step.tracker;
+    if (step.key) {
+      followKey(step.key, time);
+    }
+  }
+
+  updateKeyEstimate(estimate);
+}
+
+// Re-centre on a new key, carrying the present tension across (see modulate).
+// Recorded like an input, so a replay or export changes key at the same moment.
+function followKey(key: string, time: number) {
+  if (recorder) {
+    recordKeyChange(recorder, key, time);
+  }
+
+  const before = presentAt(time);
+  const from = config.key;
+  config.key = key;
+
+  commit(`→ ${key}`, time, before, { ...modulate(before.state, before.harmony, from, key), key }, []);
+  updateKeyIndicator();
+  updateDrone();
   updateVisuals();
+  console.log(`Modulated ${from} → ${key}`);
+}
+
+// Adopt the new present, remember how we got here, then announce it
+function commit(label: string, time: number, before: Snapshot, next: Snapshot, events: EngineEvent[]) {
+  // Playing while scrubbed back branches the session from that moment
+  stopScrubbing();
+
+  history = record(history, { time, label, before, after: next });
+  anchor = { snapshot: next, time };
+  state = next.state;
+  harmony = next.harmony;
+
+  events.forEach(emit);
+}
+
+// Tension that faded out between the shown state and `next`
+function announceFaded(next: State) {
+  for (const degree of state.tensions.keys()) {
+    if (!next.tensions.has(degree)) {
+      emit({ type: 'tensionDecayed', degree });
+    }
+  }
+}
+
+function stepHistory(step: { history: History; snapshot: Snapshot } | null) {
+  if (!step) return;
+
+  history = step.history;
+  anchor = { snapshot: step.snapshot, time: clock() };
+  state = step.snapshot.state;
+  harmony = step.snapshot.harmony;
+  if (step.snapshot.key !== config.key) {
+    config.key = step.snapshot.key;
+    updateKeyIndicator();
+    updateDrone();
+  }
+  updateVisuals();
+  console.log(`History ${history.cursor}/${history.entries.length}`);
+}
+
+// Scrub to a fraction of the session (1 = now, and back to live)
+function scrubTo(fraction: number) {
+  if (!scrubbing) {
+    scrubbing = true;
+    timelineEnd = clock();
+    scrubLimit = history.cursor;
+  }
+
+  if (fraction >= 1) {
+    stepHistory(travelTo(history, clock(), scrubLimit));
+    stopScrubbing();
+    return;
+  }
+
+  const time = history.start + (timelineEnd - history.start) * fraction;
+  stepHistory(travelTo(history, time, scrubLimit));
+}
+
+function stopScrubbing() {
+  scrubbing = false;
+  if (timeline) {
+    timeline.value = timeline.max;
+  }
+}
+
+// ============================================================================
+// RECORDING & REPLAY
+// ============================================================================
+
+// Recording starts from a clean slate, so a replay starts from the same state
+function toggleRecording() {
+  if (recorder) {
+    const session = recorder.session;
+    recorder = null;
+    lastSession = session;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadSession(session, `harmonic-session-${stamp}.json`);
+    console.log(`Recording stopped: ${session.events.length} events saved`);
+  } else {
+    stopReplay();
+    resetSession();
+    recorder = startRecording(config.key, config.scale.name, anchor.time);
+    console.log('Recording...');
+  }
+  updateSessionIndicator();
+}
+
+function pickSessionFile() {
+  const picker = document.createElement('input');
+  picker.type = 'file';
+  picker.accept = 'application/json,.json';
+  picker.addEventListener('change', async () => {
+    const file = picker.files?.[0];
+    if (!file) return;
+
+    try {
+      startReplay(parseSession(await file.text()));
+    } catch (err) {
+      console.error('Could not load session:', err);
+    }
+  });
+  picker.click();
+}
+
+// A folder's worth of recordings named by pitch (C4.wav, 60.wav…) becomes an instrument
+function pickSampleFiles() {
+  const picker = document.createElement('input');
+  picker.type = 'file';
+  picker.accept = 'audio/*';
+  picker.multiple = true;
+  picker.addEventListener('change', async () => {
+    const files = Array.from(picker.files ?? []);
+    if (files.length === 0) return;
+
+    initAudio();
+    const sampled = await loadSampleInstrument(getAudioContext(), files);
+    if (!sampled) {
+      console.error('No samples with a pitch in their name (e.g. C4.wav or 60.wav)');
+      return;
+    }
+    setInstrument(sampled);
+    console.log(`Instrument: ${files.length} samples loaded`);
+  });
+  picker.click();
+}
+
+function startReplay(session: Session) {
+  stopReplay();
+  stopAutoplay();
+  recorder = null;
+
+  const scale = scales.find(s => s.name === session.scale);
+  if (!scale) {
+    console.error('Session uses an unknown scale:', session.scale);
+    return;
+  }
+
+  lastSession = session;
+  config.key = session.key;
+  setScale(scale);
+  updateKeyIndicator();
+  updateScaleIndicator();
+  updateNodeLabels();
+  buildAlteredNodes();
+  updateDrone();
+
+  initAudio();
+  const start = clock();
+  resetSession(start);
+
+  cancelReplay = replaySession(session, start, replayEvent, () => {
+    cancelReplay = null;
+    updateSessionIndicator();
+    console.log('Replay finished');
+  });
+  updateSessionIndicator();
+  console.log(`Replaying ${session.events.length} events in ${session.key} ${session.scale}`);
 }
 
+// Same sound and engine path as the original input, at the original time
+function replayEvent(event: SessionEvent, time: number) {
+  if (event.type === 'note') {
+    playDegree(event.degree);
+    input({ type: 'note', degree: event.degree, source: event.source }, time);
+  } else if (event.type === 'key') {
+    // Already there if following modulations re-found it from the notes
+    if (event.key !== config.key) followKey(event.key, time);
+  } else {
+    playChord(event.degrees);
+    input({ type: 'chord', root: event.root, degrees: event.degrees, function: event.function, source: event.source }, time);
+  }
+}
+
+// Notes are written in the session's own key and scale; the live scale is
+// swapped in only for the export and then put back
+function exportMidi() {
+  const session = recorder?.session ?? lastSession;
+  if (!session || session.events.length === 0) {
+    console.log('Nothing to export - record or load a session first');
+    return;
+  }
+
+  const scale = scales.find(s => s.name === session.scale);
+  if (!scale) {
+    console.error('Session uses an unknown scale:', session.scale);
+    return;
+  }
+
+  const activeScale = config.scale;
+  setScale(scale);
+  try {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadMidi(sessionToMidi(session), `harmonic-session-${stamp}.mid`);
+    console.log(`Exported ${session.events.length} events as MIDI`);
+  } finally {
+    setScale(activeScale);
+  }
+}
+
+// Renders the current (or last) session, or asks for a sequence to render
+// ('1 4 5+7+2 1', as the simulator takes it) when there's nothing recorded
+async function exportWav() {
+  let session = recorder?.session ?? lastSession;
+  if (!session || session.events.length === 0) {
+    const typed = prompt('Nothing recorded - degrees to render (e.g. 1 4 5+7+2 1, 7@2.5):');
+    if (!typed?.trim()) return;
+
+    try {
+      const events = parseSequence(typed.trim().split(/\s+/), 0.5);
+      session = { version: 1, key: config.key, scale: config.scale.name, events };
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : err);
+      return;
+    }
+  }
+
+  const scale = scales.find(s => s.name === session.scale);
+  if (!scale) {
+    console.error('Session uses an unknown scale:', session.scale);
+    return;
+  }
+
+  // Everything scale-dependent is scheduled before renderSession first awaits,
+  // so the live scale can go straight back
+  const activeScale = config.scale;
+  setScale(scale);
+  let rendering: Promise<AudioBuffer>;
+  try {
+    rendering = renderSession(session);
+  } finally {
+    setScale(activeScale);
+  }
+
+  console.log(`Rendering ${session.events.length} events…`);
+  try {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadWav(audioBufferToWav(await rendering), `harmonic-session-${stamp}.wav`);
+    console.log('Exported WAV');
+  } catch (err) {
+    console.error('WAV export failed:', err);
+  }
+}
+
+function stopReplay() {
+  if (cancelReplay) {
+    cancelReplay();
+    cancelReplay = null;
+  }
+}
+
+function updateSessionIndicator() {
+  if (!sessionIndicator) return;
+
+  sessionIndicator.textContent = recorder ? '●' : cancelReplay ? '▶' : '';
+  sessionIndicator.classList.toggle('recording', recorder !== null);
+}
+
+// ============================================================================
+// ENGINE SUBSCRIBERS - every input path gets the same feedback
+// ============================================================================
+
+function subscribeToEngine() {
+  // Renderer
+  on('notePlayed', ({ degree }) => {
+    spawnGlitter(degree);
+    updateVisuals();
+  });
+  on('resolution', ({ resolution }) => triggerResolutionFeedback(resolution));
+  on('cadence', ({ cadence }) => triggerResolutionFeedback(cadence));
+
+  // Audio
+  on('resolution', ({ resolution }) => playRelease(resolution.released));
+  on('cadence', ({ cadence }) => playRelease(cadence.released));
+
+  // Logger
+  on('notePlayed', ({ degree, resolution }) => {
+    const tensionList = Array.from(state.tensions.entries())
+      .map(([d, t]) => `${d}:${t.toFixed(2)}`)
+      .join(' ');
+
+    console.log(
+      `Note ${config.scale.degreeNames[degree] ?? degree} | ` +
+      `home: ${homeness[degree].toFixed(1)} | ` +
+      `dir: ${state.direction} | ` +
+      `tension: [${tensionList || 'none'}]` +
+      (resolution ? ` | RESOLVED ${resolution.from}→${resolution.to} (${resolution.released.toFixed(2)})` : '')
+    );
+  });
+  on('chordPlayed', ({ chord }) => {
+    console.log(
+      `Chord ${romanNumeral(chord.root, config.scale)} | ` +
+      `function: ${chord.function} | ` +
+      `progression: ${harmony.progressionTension.toFixed(2)}` +
+      (chord.cadence ? ` | ${chord.cadence.type.toUpperCase()} CADENCE (${chord.cadence.released.toFixed(2)})` : '')
+    );
+  });
+  on('tensionDecayed', ({ degree }) => {
+    console.log(`Tension on ${config.scale.degreeNames[degree] ?? degree} faded unresolved`);
+  });
+}
+
+// Visual response scales with how much tension the resolution released:
+// a full 7→1 lands hard, a deceptive 6→1 barely ripples
 function triggerResolutionFeedback(resolution: Resolution) {
   const fromElement = nodeElements.get(resolution.from);
   const toElement = nodeElements.get(resolution.to);
+  const strength = Math.min(1, Math.max(0, resolution.released));
 
   if (fromElement) {
     fromElement.classList.add('resolving');
-    setTimeout(() => fromElement.classList.remove('resolving'), 200);
+    setTimeout(() => fromElement.classList.remove('resolving'), 100 + strength * 150);
   }
 
   if (toElement) {
+    toElement.style.setProperty('--resolve-strength', String(strength));
     toElement.classList.add('resolved-target');
-    setTimeout(() => toElement.classList.remove('resolved-target'), 150);
+    setTimeout(() => toElement.classList.remove('resolved-target'), 100 + strength * 100);
   }
 }
 
@@ -515,6 +1391,53 @@ function updateKeyIndicator() {
   }
 }
 
+function updateKeyEstimate(estimate: KeyEstimate | null) {
+  if (!keyEstimateIndicator) return;
+
+  keyEstimateIndicator.textContent = estimate
+    ? `${estimate.key} ${estimate.mode} · ${Math.round(estimate.confidence * 100)}%${followModulations ? ' ⟳' : ''}`
+    : followModulations ? '⟳' : '';
+  keyEstimateIndicator.style.opacity = estimate ? String(0.3 + estimate.confidence * 0.5) : '0.5';
+}
+
+// One ghost node per altered degree of the active scale
+function buildAlteredNodes() {
+  while (alteredGroup.firstChild) {
+    alteredGroup.removeChild(alteredGroup.firstChild);
+  }
+  alteredElements.clear();
+
+  for (const degree of config.scale.alteredDegrees) {
+    const circle = document.createElementNS(SVG_NS, 'circle');
+    circle.classList.add('altered-node');
+    circle.dataset.degree = config.scale.degreeNames[degree];
+    circle.setAttribute('filter', 'url(#glow)');
+    circle.style.opacity = '0';
+    alteredGroup.appendChild(circle);
+    alteredElements.set(degree, circle);
+  }
+}
+
+function updateScaleIndicator() {
+  if (scaleIndicator) {
+    scaleIndicator.textContent = config.scale.name;
+  }
+}
+
+// Labels sit at each node's resting position, so they move with the scale
+function updateNodeLabels() {
+  for (const [degree, element] of nodeElements) {
+    const label = element.querySelector('text')!;
+    const pos = nodePositions[degree];
+    const size = config.minSize + (config.maxSize - config.minSize) * homeness[degree];
+
+    label.setAttribute('x', String(pos.x));
+    label.setAttribute('y', String(pos.y));
+    label.setAttribute('font-size', String(size * 0.5));
+    label.textContent = romanNumeral(degree, config.scale);
+  }
+}
+
 let lastDisplayedChord: string | null = null;
 let chordFadeTimeout: number | null = null;
 
@@ -650,6 +1573,62 @@ function updateVisuals() {
     circle.setAttribute('fill', `hsl(${color.h}, ${color.s}%, ${color.l}%)`);
     circle.style.opacity = String(opacity);
   }
+
+  updateAlteredNodes(time);
+  updateSuggestionHalos();
+}
+
+// Hue per reason, matching the force colours: gold resolves, blue carries
+// the line, purple builds tension
+const reasonHues: Record<string, number> = {
+  resolve: 45,
+  cadence: 45,
+  momentum: 210,
+  tension: 280,
+  rest: 0,
+};
+
+function updateSuggestionHalos() {
+  if (!showSuggestions) return;
+
+  const ranked = rankNextDegrees(state);
+  noteHalos.forEach((halo, i) => {
+    const suggestion = ranked[i];
+    placeHalo(halo, suggestion.degree, suggestion.reason, 0.5 - i * 0.12);
+    halo.dataset.reason = suggestion.reason;
+  });
+
+  const chord = rankNextChords(state, harmony)[0];
+  placeHalo(chordHalo, chord.root, chord.reason, 0.4);
+  chordHalo.dataset.reason = chord.cadence ? `${chord.cadence} cadence` : chord.reason;
+}
+
+function placeHalo(halo: SVGCircleElement, degree: number, reason: string, opacity: number) {
+  const pos = nodePositions[degree];
+  const size = config.minSize + (config.maxSize - config.minSize) * homeness[degree];
+  const hue = reasonHues[reason];
+
+  halo.setAttribute('cx', String(pos.x));
+  halo.setAttribute('cy', String(pos.y));
+  halo.setAttribute('r', String(size + 1.5));
+  halo.setAttribute('stroke', reason === 'rest' ? 'rgba(255, 255, 255, 0.6)' : `hsl(${hue}, 80%, 65%)`);
+  halo.style.opacity = String(opacity);
+}
+
+// Altered degrees only show up while they hold tension, then fade with it
+function updateAlteredNodes(time: number) {
+  for (const [degree, circle] of alteredElements) {
+    const pos = nodePositions[degree];
+    const tension = state.tensions.get(degree) ?? 0;
+    const color = getNodeColor(degree, state);
+
+    const drift = tension * 0.5;
+    circle.setAttribute('cx', String(pos.x + Math.sin(time * 2 + degree) * drift));
+    circle.setAttribute('cy', String(pos.y + Math.cos(time * 2.5 + degree * 0.7) * drift));
+    circle.setAttribute('r', String(config.minSize * 0.5 + tension * 1.5));
+    circle.setAttribute('fill', `hsl(${color.h}, ${color.s}%, ${color.l}%)`);
+    circle.style.opacity = String(Math.min(0.9, tension));
+  }
 }
 
 function updateBurningLight() {
@@ -682,7 +1661,7 @@ function updateBurningLight() {
   const stableHz = currentPitchHz;
 
   // Debug: show detected pitch
-  console.log('Hz:', Math.round(stableHz), '→ semitones:', (12 * Math.log2(stableHz / getRootHz())).toFixed(1));
+  console.log('Hz:', Math.round(stableHz), '→ semitones:', frequencySemitones(stableHz).toFixed(1));
 
   const rawPos = hzToPosition(stableHz);
 
@@ -698,27 +1677,8 @@ function updateBurningLight() {
         const degree = rawPos.degree;
 
         // Trigger the note - same as clicking
-        console.log('[Mic] BEFORE playNote:', degree, 'tensions:', [...state.tensions.entries()]);
-        spawnGlitter(degree);
-        const resolution = playNote(state, degree);
-        console.log('[Mic] AFTER playNote:', degree, 'resolution:', resolution, 'tensions:', [...state.tensions.entries()]);
-        if (resolution) {
-          triggerResolutionFeedback(resolution);
-        }
+        input({ type: 'note', degree, source: 'mic' });
 
-        // Log state (same as click)
-        const tensionList = Array.from(state.tensions.entries())
-          .map(([d, t]) => `${d}:${t.toFixed(2)}`)
-          .join(' ');
-        console.log(
-          `[Mic] Note ${degree} | ` +
-          `home: ${homeness[degree].toFixed(1)} | ` +
-          `dir: ${state.direction} | ` +
-          `tension: [${tensionList || 'none'}]` +
-          (resolution ? ` | RESOLVED ${resolution.from}→${resolution.to}` : '')
-        );
-
-        updateVisuals();
         // Reset to prevent re-triggering (require leaving and coming back)
         dwellDegree = null;
       }
@@ -799,10 +1759,17 @@ function animate(time: number) {
   const deltaTime = (time - lastTime) / 1000;
   lastTime = time;
 
-  decay(state, deltaTime);
+  // Frozen in the past while scrubbing
+  if (!scrubbing) {
+    const present = presentAt(clock());
+    announceFaded(present.state);
+    state = present.state;
+    harmony = present.harmony;
+  }
   updateParticles(deltaTime);
   updateBurningLight();
   updateVisuals();
+  sonifyState(state);
 
   requestAnimationFrame(animate);
 }
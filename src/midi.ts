@@ -0,0 +1,261 @@
+// MIDI - Keyboards in, external synths out
+// Note-ons become scale degrees in the current key (chromatic notes become
+// altered degrees); notes struck together become a chord. Played degrees
+// can go back out as note-on/note-off to any MIDI output.
+
+import { config } from './engine';
+import { triadDegrees } from './harmony';
+import { midiNoteToDegree } from './pitch';
+import type { InputDevice, SessionInput } from './session';
+
+// ============================================================================
+// PORTS
+// ============================================================================
+
+// The little of a MIDI input we need - a real Web MIDI input or a fake one
+export type MidiPort = {
+  name: string;
+  listen(onMessage: (data: ArrayLike<number>) => void): () => void;  // Returns unlisten
+};
+
+export function webMidiPort(input: MIDIInput): MidiPort {
+  return {
+    name: input.name ?? 'MIDI input',
+    listen(onMessage) {
+      const handler = (event: MIDIMessageEvent) => {
+        if (event.data) onMessage(event.data);
+      };
+      input.addEventListener('midimessage', handler);
+      return () => input.removeEventListener('midimessage', handler);
+    },
+  };
+}
+
+// A port driven by hand, for tests and demos without a keyboard
+export type FakeMidiPort = MidiPort & {
+  send(data: number[]): void;
+  noteOn(note: number, velocity?: number): void;
+  noteOff(note: number): void;
+};
+
+export function createFakeMidiPort(name: string = 'Fake MIDI'): FakeMidiPort {
+  const listeners = new Set<(data: ArrayLike<number>) => void>();
+
+  const port: FakeMidiPort = {
+    name,
+    listen(onMessage) {
+      listeners.add(onMessage);
+      return () => {
+        listeners.delete(onMessage);
+      };
+    },
+    send(data) {
+      for (const listener of listeners) {
+        listener(data);
+      }
+    },
+    noteOn(note, velocity = 100) {
+      port.send([0x90, note, velocity]);
+    },
+    noteOff(note) {
+      port.send([0x80, note, 0]);
+    },
+  };
+
+  return port;
+}
+
+// ============================================================================
+// INPUT DEVICE
+// ============================================================================
+
+// Note-ons closer together than this are one chord (a human "simultaneous")
+const CHORD_WINDOW_MS = 30;
+
+type HeldNote = { note: number; degree: number };
+
+// Turn a port into an input device. Notes are read in the key and scale
+// active when they're struck.
+export function createMidiInputDevice(port: MidiPort, chordWindow: number = CHORD_WINDOW_MS): InputDevice {
+  let unlisten: (() => void) | null = null;
+  let pending: HeldNote[] = [];
+  let flushTimer: number | null = null;
+
+  const stop = () => {
+    unlisten?.();
+    unlisten = null;
+    if (flushTimer !== null) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    pending = [];
+  };
+
+  return {
+    name: port.name,
+    start(onInput) {
+      stop();
+
+      const flush = () => {
+        flushTimer = null;
+        const input = groupToInput(pending);
+        pending = [];
+        if (input) onInput(input);
+      };
+
+      unlisten = port.listen(data => {
+        const status = data[0] & 0xf0;
+        const velocity = data[2] ?? 0;
+        if (status !== 0x90 || velocity === 0) return;  // Only note-ons (velocity 0 = note-off)
+
+        const degree = midiNoteToDegree(data[1], config.key);
+        if (degree === null) return;
+
+        pending.push({ note: data[1], degree });
+        if (flushTimer === null) {
+          flushTimer = window.setTimeout(flush, chordWindow);
+        }
+      });
+    },
+    stop,
+  };
+}
+
+// One note → a note; several distinct degrees → a chord
+function groupToInput(notes: HeldNote[]): SessionInput | null {
+  const sorted = [...notes].sort((a, b) => a.note - b.note);
+  const degrees = [...new Set(sorted.map(n => n.degree))];
+
+  if (degrees.length === 0) return null;
+  if (degrees.length === 1) {
+    return { type: 'note', degree: degrees[0], source: 'midi' };
+  }
+
+  return { type: 'chord', root: chordRoot(sorted, degrees), degrees, source: 'midi' };
+}
+
+// The diatonic degree whose triad explains most of the notes; ties go to the
+// lowest sounding one (so inversions still find their root)
+function chordRoot(sorted: HeldNote[], degrees: number[]): number {
+  let best: number | null = null;
+  let bestCount = 0;
+
+  for (const { degree } of sorted) {
+    if (!Number.isInteger(degree)) continue;
+    const triad = triadDegrees(degree);
+    const count = degrees.filter(d => triad.includes(d)).length;
+    if (count > bestCount) {
+      best = degree;
+      bestCount = count;
+    }
+  }
+
+  return best ?? Math.floor(sorted[0].degree);
+}
+
+// ============================================================================
+// WEB MIDI
+// ============================================================================
+
+// Ask for MIDI access and wrap every input (including ones plugged in later)
+// as a device. Resolves to a function that stops watching for new inputs, or
+// null when the browser has no Web MIDI or access is refused.
+export async function requestMidiDevices(onDevice: (device: InputDevice) => void): Promise<(() => void) | null> {
+  if (!navigator.requestMIDIAccess) {
+    console.warn('Web MIDI is not supported in this browser');
+    return null;
+  }
+
+  try {
+    const access = await navigator.requestMIDIAccess();
+    const seen = new Set<string>();
+
+    const addInputs = () => {
+      access.inputs.forEach(input => {
+        if (seen.has(input.id)) return;
+        seen.add(input.id);
+        onDevice(createMidiInputDevice(webMidiPort(input)));
+      });
+    };
+
+    addInputs();
+    access.addEventListener('statechange', addInputs);
+    return () => access.removeEventListener('statechange', addInputs);
+  } catch (err) {
+    console.error('MIDI access denied:', err);
+    return null;
+  }
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+// The little of a MIDI output we need - timestamp is performance.now() time
+export type MidiOutPort = {
+  name: string;
+  send(data: number[], timestamp?: number): void;
+};
+
+export function webMidiOutPort(output: MIDIOutput): MidiOutPort {
+  return {
+    name: output.name ?? 'MIDI output',
+    send(data, timestamp) {
+      output.send(data, timestamp);
+    },
+  };
+}
+
+export type MidiOutputSettings = {
+  channel: number;     // 0-15
+  velocity: number;    // 1-127
+  noteLength: number;  // Seconds between note-on and note-off
+};
+
+export const midiOutputSettings: MidiOutputSettings = {
+  channel: 0,
+  velocity: 90,
+  noteLength: 0.5,
+};
+
+// Change some of the settings, kept to what MIDI can carry
+export function configureMidiOutput(settings: Partial<MidiOutputSettings>): void {
+  const { channel, velocity, noteLength } = { ...midiOutputSettings, ...settings };
+  midiOutputSettings.channel = Math.max(0, Math.min(15, Math.round(channel)));
+  midiOutputSettings.velocity = Math.max(1, Math.min(127, Math.round(velocity)));
+  midiOutputSettings.noteLength = Math.max(0.01, noteLength);
+}
+
+// Note-on after `delay` seconds, note-off one note length later. Both are
+// handed to the port with timestamps, so no timers are needed.
+export function sendMidiNote(port: MidiOutPort, note: number, delay: number = 0): void {
+  const start = performance.now() + delay * 1000;
+  sendNoteOn(port, note, start);
+  sendNoteOff(port, note, start + midiOutputSettings.noteLength * 1000);
+}
+
+// Held notes: note-on now, note-off whenever the caller lets go
+export function sendNoteOn(port: MidiOutPort, note: number, timestamp?: number): void {
+  const { channel, velocity } = midiOutputSettings;
+  port.send([0x90 | channel, note, velocity], timestamp);
+}
+
+export function sendNoteOff(port: MidiOutPort, note: number, timestamp?: number): void {
+  port.send([0x80 | midiOutputSettings.channel, note, 0], timestamp);
+}
+
+// Every output currently available (empty when Web MIDI is missing or refused)
+export async function requestMidiOutputs(): Promise<MidiOutPort[]> {
+  if (!navigator.requestMIDIAccess) {
+    console.warn('Web MIDI is not supported in this browser');
+    return [];
+  }
+
+  try {
+    const access = await navigator.requestMIDIAccess();
+    return Array.from(access.outputs.values(), webMidiOutPort);
+  } catch (err) {
+    console.error('MIDI access denied:', err);
+    return [];
+  }
+}
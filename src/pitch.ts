@@ -0,0 +1,169 @@
+// Pitch - Keys, degrees and frequencies in one place
+// Every key spelling (C#, Db…), where each degree of the active scale sounds in
+// a key, and the conversions degree → semitone → Hz / MIDI note and back that
+// the synth, the mic and MIDI all share.
+
+import { config } from './engine';
+import { degreeAtSemitone } from './scales';
+import { semitoneCents, centsSemitones, tuningSettings } from './tuning';
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+const keyPitchClasses: Record<string, number> = {
+  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'F': 5,
+  'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
+};
+
+// Spelling used when the app picks a key itself (all selectable from the keyboard)
+const pitchClassKeys = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Whether a key is spelled the way the app knows (C#, Db… but not H or Cb)
+export function isKey(key: string): boolean {
+  return key in keyPitchClasses;
+}
+
+// Pitch class of a key's tonic (C = 0)
+export function keyPitchClass(key: string): number {
+  return keyPitchClasses[key] ?? 0;
+}
+
+export function pitchClassKey(pitchClass: number): string {
+  return pitchClassKeys[((pitchClass % 12) + 12) % 12];
+}
+
+// C# and Db are the same key as far as sound goes
+export function isEnharmonic(a: string, b: string): boolean {
+  return keyPitchClass(a) === keyPitchClass(b);
+}
+
+// ============================================================================
+// DEGREES
+// ============================================================================
+
+// Octaves single notes are shifted by (chords keep their own register - see voicing)
+let register = 0;
+
+export function setRegister(octaves: number): void {
+  register = Math.max(-2, Math.min(2, Math.round(octaves)));
+}
+
+export function getRegister(): number {
+  return register;
+}
+
+// Semitones from the key's root to where a degree sounds (active scale)
+export function getDegreeOffset(degree: number): number {
+  const semitones = config.scale.semitones[degree];
+
+  // Drop leading tone (7), and anything altered above it, an octave so it resolves UP to tonic
+  return (degree >= 7 ? semitones - 12 : semitones) + register * 12;
+}
+
+// Pitch class a degree sounds at in a key (active scale)
+export function degreePitchClass(degree: number, key: string): number {
+  return (keyPitchClass(key) + config.scale.semitones[degree]) % 12;
+}
+
+// ============================================================================
+// FREQUENCIES
+// ============================================================================
+
+// The key's tonic in the middle octave (C4 to B4). It's always where equal
+// temperament puts it against the A4 reference, whatever the tuning, so other
+// instruments tuned to that A still agree on the root.
+export function tonicFrequency(key: string = config.key): number {
+  return tuningSettings.reference * Math.pow(2, (keyPitchClass(key) - 9) / 12);
+}
+
+// Hz of a note some semitones from the key's tonic, in the current tuning
+export function semitoneFrequency(semitones: number, key: string = config.key): number {
+  return tonicFrequency(key) * Math.pow(2, semitoneCents(semitones) / 1200);
+}
+
+export function degreeFrequency(degree: number, key: string = config.key): number {
+  return semitoneFrequency(getDegreeOffset(degree), key);
+}
+
+// Semitones from the key's tonic a heard frequency sits at, in the current tuning
+// (a pure major third reads as exactly 4 in just intonation)
+export function frequencySemitones(hz: number, key: string = config.key): number {
+  return centsSemitones(1200 * Math.log2(hz / tonicFrequency(key)));
+}
+
+// Where a heard frequency falls among the active scale's degrees, in any octave
+export type PitchLocation = {
+  inKey: boolean;         // Within a quarter-tone of a scale degree
+  degree: number | null;  // That degree, or an altered degree if near a chromatic semitone
+  lower: number;          // Scale degrees either side of the pitch
+  upper: number;
+  between: number;        // 0 = at lower, 1 = at upper
+};
+
+export function locateFrequency(hz: number, key: string = config.key): PitchLocation | null {
+  if (!hz || hz <= 0 || !isFinite(hz)) return null;
+
+  const semitones = frequencySemitones(hz, key);
+  if (!isFinite(semitones)) return null;
+
+  // Normalize to one octave (0-12); very close to 12 counts as the tonic
+  let octaveSemitones = ((semitones % 12) + 12) % 12;
+  if (octaveSemitones > 11.5) octaveSemitones = 0;
+
+  // e.g. major: 1=0, 2=2, 3=4, 4=5, 5=7, 6=9, 7=11
+  const scaleDegrees = config.scale.enabledDegrees.map(degree => ({
+    semi: config.scale.semitones[degree],
+    degree,
+  }));
+
+  // Lower and upper adjacent scale degrees (the last wraps round to the first)
+  let lower = scaleDegrees[scaleDegrees.length - 1];
+  let upper = scaleDegrees[0];
+  for (let i = 0; i < scaleDegrees.length; i++) {
+    if (scaleDegrees[i].semi <= octaveSemitones) {
+      lower = scaleDegrees[i];
+      upper = scaleDegrees[(i + 1) % scaleDegrees.length];
+    }
+  }
+
+  let distToLower = octaveSemitones - lower.semi;
+  if (distToLower < 0) distToLower += 12;
+  let gap = upper.semi - lower.semi;
+  if (gap <= 0) gap += 12;
+
+  const location = { lower: lower.degree, upper: upper.degree, between: distToLower / gap };
+
+  // Close enough to snap to a scale degree
+  if (Math.min(distToLower, gap - distToLower) < 0.25) {
+    const nearest = distToLower < gap - distToLower ? lower : upper;
+    return { ...location, inKey: true, degree: nearest.degree };
+  }
+
+  // Close enough to a chromatic semitone - it's an altered degree the engine can play
+  const nearestSemitone = Math.round(octaveSemitones);
+  const altered = Math.abs(octaveSemitones - nearestSemitone) < 0.25
+    ? degreeAtSemitone(nearestSemitone, config.scale)
+    : null;
+
+  return { ...location, inKey: false, degree: altered };
+}
+
+// ============================================================================
+// MIDI NOTES
+// ============================================================================
+
+// MIDI note of a key's root (middle octave, the same as tonicFrequency)
+export function keyRootNote(key: string): number {
+  return 60 + keyPitchClass(key);
+}
+
+// MIDI note number a degree sounds at in a key (active scale)
+export function degreeToMidiNote(degree: number, key: string): number {
+  return keyRootNote(key) + getDegreeOffset(degree);
+}
+
+// Degree (diatonic or altered) a MIDI note plays in a key, in any octave
+export function midiNoteToDegree(note: number, key: string): number | null {
+  return degreeAtSemitone(note - keyRootNote(key), config.scale);
+}
@@ -0,0 +1,336 @@
+// Scales - Semitone layout, stability and resolution rules per scale/mode
+// Degrees are always 1-7; what changes is where they sit and where they pull
+// Altered (chromatic) degrees sit between their neighbours: 4.5 = ♯4 in major
+
+// ============================================================================
+// SCALE DEFINITION
+// ============================================================================
+
+// An unstable degree's pull toward a resolution target
+export type ResolutionRule = {
+  from: number;         // Unstable degree
+  to: number;           // Resolution target
+  pullStrength: number; // How strongly it pulls (0.0 – 1.0)
+};
+
+export type Scale = {
+  name: string;
+  enabledDegrees: number[];
+  alteredDegrees: number[];              // Chromatic degrees the scale leaves out
+  degreeNames: Record<number, string>;   // '1'…'7', '♯4', '♭6', '♮7'…
+  semitones: Record<number, number>;     // Degree → semitones above tonic
+  homeness: Record<number, number>;      // 1 = home, 0 = far from home
+  resolutionRules: ResolutionRule[];     // Stable degrees have no rules - they're home
+  nodeAngles: Record<number, number>;    // Layout angle per degree (see engine)
+};
+
+// What a built-in spells out by hand - altered degrees are derived from it
+type ScaleDefinition = Omit<Scale, 'alteredDegrees' | 'degreeNames'>;
+
+const allDegrees = [1, 2, 3, 4, 5, 6, 7];
+
+// Layout designed so resolution direction is visible:
+//   - 4 above 3 (falls down to resolve)
+//   - 2 above 1 (falls down to resolve)
+//   - 7 below/left of 1 (rises up to resolve)
+//   - 6 above 5 (falls down to resolve)
+//   - Stable notes (3, 5) at bottom (grounded)
+const defaultNodeAngles: Record<number, number> = {
+  1: 0,      // center (angle doesn't matter)
+  3: 120,    // stable, lower-left (grounded)
+  5: 60,     // stable, lower-right (grounded)
+  4: 210,    // far, upper-left (above 3, falls to it)
+  2: 270,    // away, directly above (falls to 1)
+  6: 330,    // away, upper-right (above 5, falls to it)
+  7: 165,    // far, left & slightly below (rises to 1)
+};
+
+// ============================================================================
+// ALTERED DEGREES
+// ============================================================================
+
+// Names by semitone above the tonic, relative to major
+const chromaticNames = ['1', '♭2', '2', '♭3', '3', '4', '♯4', '5', '♭6', '6', '♭7', '7'];
+
+// Borrowed colours are familiar enough to sit a little closer to home
+const alteredHomeness: Record<string, number> = {
+  '♭3': 0.25,
+  '♭6': 0.2,
+  '♭7': 0.3,
+  '♮6': 0.25,
+};
+const defaultAlteredHomeness = 0.15;
+
+// Fill in the chromatic degrees between each pair of neighbouring scale degrees.
+// An altered degree leans the way it was altered: ♯/raised notes rise to the
+// next degree up, ♭/lowered notes fall to the next degree down.
+function defineScale(definition: ScaleDefinition): Scale {
+  const scale: Scale = {
+    ...definition,
+    alteredDegrees: [],
+    degreeNames: {},
+    semitones: { ...definition.semitones },
+    homeness: { ...definition.homeness },
+    resolutionRules: [...definition.resolutionRules],
+  };
+
+  const degrees = definition.enabledDegrees;
+  degrees.forEach((lower, i) => {
+    scale.degreeNames[lower] = String(lower);
+
+    const upper = degrees[(i + 1) % degrees.length];
+    const lowerSemitone = definition.semitones[lower];
+    const upperSemitone = upper > lower ? definition.semitones[upper] : 12;
+    const gap = upperSemitone - lowerSemitone;
+
+    for (let offset = 1; offset < gap; offset++) {
+      const degree = Math.round((lower + offset / gap) * 100) / 100;
+      const semitone = lowerSemitone + offset;
+      const name = alteredName(semitone);
+      const rises = name.startsWith('♯') ||
+        (name.startsWith('♮') && semitone > definition.semitones[Number(name.slice(1))]);
+
+      scale.alteredDegrees.push(degree);
+      scale.degreeNames[degree] = name;
+      scale.semitones[degree] = semitone;
+      scale.homeness[degree] = alteredHomeness[name] ?? defaultAlteredHomeness;
+
+      // Strong pull the way it leans (stronger still by half step), weak the other way
+      const upDistance = gap - offset;
+      const downDistance = offset;
+      scale.resolutionRules.push(
+        { from: degree, to: upper, pullStrength: rises ? (upDistance === 1 ? 0.8 : 0.5) : 0.3 },
+        { from: degree, to: lower, pullStrength: rises ? 0.3 : (downDistance === 1 ? 0.8 : 0.5) },
+      );
+    }
+  });
+
+  return scale;
+}
+
+// ♭/♯ name relative to major, or ♮ when it restores a degree the scale altered
+function alteredName(semitone: number): string {
+  const name = chromaticNames[semitone];
+  return Number.isNaN(Number(name)) ? name : '♮' + name;
+}
+
+// Degree (diatonic or altered) sounding at a semitone above the tonic
+export function degreeAtSemitone(semitone: number, scale: Scale): number | null {
+  const target = ((Math.round(semitone) % 12) + 12) % 12;
+  for (const [degree, value] of Object.entries(scale.semitones)) {
+    if (value === target) return Number(degree);
+  }
+  return null;
+}
+
+// ============================================================================
+// BUILT-IN SCALES
+// ============================================================================
+
+export const major = defineScale({
+  name: 'major',
+  enabledDegrees: allDegrees,
+  semitones: { 1: 0, 2: 2, 3: 4, 4: 5, 5: 7, 6: 9, 7: 11 },
+  homeness: {
+    1: 1.0,   // Home - tonic
+    3: 0.7,   // Near home - part of tonic triad
+    5: 0.7,   // Near home - part of tonic triad
+    6: 0.4,   // Away - not tonic, not leading
+    2: 0.3,   // Away - wants to resolve
+    4: 0.2,   // Far - strong pull to 3
+    7: 0.1,   // Far - leading tone, strongest pull to 1
+  },
+  resolutionRules: [
+    { from: 7, to: 1, pullStrength: 1.0 },  // Leading tone → tonic (half step)
+    { from: 4, to: 3, pullStrength: 0.8 },  // Fa → mi (half step)
+    { from: 2, to: 1, pullStrength: 0.5 },  // Re → do
+    { from: 2, to: 3, pullStrength: 0.4 },  // Re → mi (alternate resolution)
+    { from: 6, to: 5, pullStrength: 0.5 },  // La → sol
+    { from: 6, to: 1, pullStrength: 0.3 },  // La → do (deceptive motion)
+  ],
+  nodeAngles: defaultNodeAngles,
+});
+
+export const naturalMinor = defineScale({
+  name: 'natural minor',
+  enabledDegrees: allDegrees,
+  semitones: { 1: 0, 2: 2, 3: 3, 4: 5, 5: 7, 6: 8, 7: 10 },
+  homeness: {
+    1: 1.0,
+    3: 0.7,
+    5: 0.7,
+    7: 0.35,  // Subtonic - whole step below, only a soft pull home
+    2: 0.3,
+    4: 0.3,   // Whole step above ♭3, weaker than major's fa
+    6: 0.2,   // ♭6 - half step above 5, strong pull down
+  },
+  resolutionRules: [
+    { from: 6, to: 5, pullStrength: 0.9 },  // ♭6 → 5 (half step)
+    { from: 4, to: 3, pullStrength: 0.6 },  // 4 → ♭3
+    { from: 2, to: 1, pullStrength: 0.5 },
+    { from: 2, to: 3, pullStrength: 0.4 },
+    { from: 7, to: 1, pullStrength: 0.4 },  // Subtonic → tonic (weak, but it's the only way home)
+  ],
+  nodeAngles: defaultNodeAngles,
+});
+
+export const harmonicMinor = defineScale({
+  name: 'harmonic minor',
+  enabledDegrees: allDegrees,
+  semitones: { 1: 0, 2: 2, 3: 3, 4: 5, 5: 7, 6: 8, 7: 11 },
+  homeness: {
+    1: 1.0,
+    3: 0.7,
+    5: 0.7,
+    2: 0.3,
+    4: 0.3,
+    6: 0.2,   // ♭6 - half step above 5
+    7: 0.1,   // Raised leading tone
+  },
+  resolutionRules: [
+    { from: 7, to: 1, pullStrength: 1.0 },
+    { from: 6, to: 5, pullStrength: 0.9 },
+    { from: 4, to: 3, pullStrength: 0.6 },
+    { from: 2, to: 1, pullStrength: 0.5 },
+    { from: 2, to: 3, pullStrength: 0.4 },
+  ],
+  nodeAngles: defaultNodeAngles,
+});
+
+// Ascending form - raised 6 and 7 lead up to the tonic
+export const melodicMinor = defineScale({
+  name: 'melodic minor',
+  enabledDegrees: allDegrees,
+  semitones: { 1: 0, 2: 2, 3: 3, 4: 5, 5: 7, 6: 9, 7: 11 },
+  homeness: {
+    1: 1.0,
+    3: 0.7,
+    5: 0.7,
+    6: 0.4,
+    2: 0.3,
+    4: 0.3,
+    7: 0.1,
+  },
+  resolutionRules: [
+    { from: 7, to: 1, pullStrength: 1.0 },
+    { from: 4, to: 3, pullStrength: 0.6 },
+    { from: 2, to: 1, pullStrength: 0.5 },
+    { from: 2, to: 3, pullStrength: 0.4 },
+    { from: 6, to: 5, pullStrength: 0.5 },
+  ],
+  nodeAngles: defaultNodeAngles,
+});
+
+export const dorian = defineScale({
+  name: 'dorian',
+  enabledDegrees: allDegrees,
+  semitones: { 1: 0, 2: 2, 3: 3, 4: 5, 5: 7, 6: 9, 7: 10 },
+  homeness: {
+    1: 1.0,
+    3: 0.7,
+    5: 0.7,
+    6: 0.4,   // Raised 6 - the Dorian colour, mild
+    7: 0.35,  // Subtonic
+    2: 0.3,
+    4: 0.3,
+  },
+  resolutionRules: [
+    { from: 4, to: 3, pullStrength: 0.6 },
+    { from: 2, to: 1, pullStrength: 0.5 },
+    { from: 2, to: 3, pullStrength: 0.4 },
+    { from: 6, to: 5, pullStrength: 0.5 },
+    { from: 7, to: 1, pullStrength: 0.4 },
+  ],
+  nodeAngles: defaultNodeAngles,
+});
+
+export const mixolydian = defineScale({
+  name: 'mixolydian',
+  enabledDegrees: allDegrees,
+  semitones: { 1: 0, 2: 2, 3: 4, 4: 5, 5: 7, 6: 9, 7: 10 },
+  homeness: {
+    1: 1.0,
+    3: 0.7,
+    5: 0.7,
+    6: 0.4,
+    7: 0.35,  // ♭7 - no leading tone, drifts down as often as up
+    2: 0.3,
+    4: 0.2,
+  },
+  resolutionRules: [
+    { from: 4, to: 3, pullStrength: 0.8 },
+    { from: 2, to: 1, pullStrength: 0.5 },
+    { from: 2, to: 3, pullStrength: 0.4 },
+    { from: 6, to: 5, pullStrength: 0.5 },
+    { from: 6, to: 1, pullStrength: 0.3 },
+    { from: 7, to: 1, pullStrength: 0.4 },  // ♭7 → tonic (no leading tone to help)
+    { from: 7, to: 6, pullStrength: 0.4 },  // ♭7 → la, just as likely
+  ],
+  nodeAngles: defaultNodeAngles,
+});
+
+export const lydian = defineScale({
+  name: 'lydian',
+  enabledDegrees: allDegrees,
+  semitones: { 1: 0, 2: 2, 3: 4, 4: 6, 5: 7, 6: 9, 7: 11 },
+  homeness: {
+    1: 1.0,
+    3: 0.7,
+    5: 0.7,
+    6: 0.4,
+    2: 0.3,
+    4: 0.2,   // ♯4 - half step below 5, pulls up
+    7: 0.1,
+  },
+  resolutionRules: [
+    { from: 7, to: 1, pullStrength: 1.0 },
+    { from: 4, to: 5, pullStrength: 0.9 },  // ♯4 → 5 (rises instead of falling)
+    { from: 2, to: 1, pullStrength: 0.5 },
+    { from: 2, to: 3, pullStrength: 0.4 },
+    { from: 6, to: 5, pullStrength: 0.5 },
+    { from: 6, to: 1, pullStrength: 0.3 },
+  ],
+  nodeAngles: {
+    ...defaultNodeAngles,
+    4: 95,      // far, below between 3 and 5 (rises to 5)
+  },
+});
+
+export const scales: Scale[] = [
+  major,
+  naturalMinor,
+  harmonicMinor,
+  melodicMinor,
+  dorian,
+  mixolydian,
+  lydian,
+];
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+const numerals = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Roman numeral for the triad built on a degree (case and ° from its thirds)
+export function romanNumeral(degree: number, scale: Scale): string {
+  // Altered roots (♭VI, ♯IV…) are named by their alteration alone
+  if (!Number.isInteger(degree)) {
+    const name = scale.degreeNames[degree];
+    return name.slice(0, -1) + numerals[Number(name.slice(-1)) - 1];
+  }
+
+  const third = stackedInterval(degree, 2, scale);
+  const fifth = stackedInterval(degree, 4, scale);
+  const numeral = numerals[degree - 1];
+
+  if (third === 4) return fifth === 8 ? numeral + '+' : numeral;
+  if (fifth === 6) return numeral.toLowerCase() + '°';
+  return numeral.toLowerCase();
+}
+
+// Semitones from a degree to the degree `steps` scale steps above it
+function stackedInterval(degree: number, steps: number, scale: Scale): number {
+  const upper = ((degree - 1 + steps) % 7) + 1;
+  return (scale.semitones[upper] - scale.semitones[degree] + 12) % 12;
+}
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSession } from './session';
+
+const session = (fields: object) => JSON.stringify({ version: 1, key: 'C', scale: 'major', events: [], ...fields });
+
+test('parseSession accepts notes, chords and key changes in the scale', () => {
+  const parsed = parseSession(session({
+    events: [
+      { time: 0, type: 'note', degree: 7, source: 'click' },
+      { time: 500, type: 'chord', root: 5, degrees: [5, 7, 2], source: 'shift-click' },
+      { time: 900, type: 'key', key: 'G' },
+      { time: 1000, type: 'note', degree: 4.5, source: 'midi' },
+    ],
+  }));
+  assert.equal(parsed.events.length, 4);
+});
+
+test('parseSession rejects a malformed session', () => {
+  const rejects = (fields: object) => assert.throws(() => parseSession(session(fields)));
+
+  rejects({ version: 2 });
+  rejects({ key: 'H' });
+  rejects({ scale: 'nonexistent' });
+  rejects({ events: [{ time: 0, type: 'note', degree: 9, source: 'click' }] });
+  rejects({ events: [{ time: -1, type: 'note', degree: 1, source: 'click' }] });
+  rejects({ events: [{ time: 0, type: 'chord', root: 5, degrees: [5, 7, 12], source: 'midi' }] });
+  rejects({ events: [{ time: 0, type: 'chord', root: 5, degrees: [], source: 'midi' }] });
+  rejects({ events: [{ time: 0, type: 'key', key: 'Cb' }] });
+});
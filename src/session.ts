@@ -0,0 +1,228 @@
+// Session - Recording played phrases and replaying them with identical timing
+// A session is just timestamped inputs; replaying them through the same input
+// path (with the same timestamps) reproduces the same tension, note for note
+
+import { createInitialState, decay, playNote, config, type State } from './engine';
+import { createHarmonyState, decayHarmony, playChordNotes, type HarmonicFunction, type HarmonyState } from './harmony';
+import { modulate } from './tonality';
+import { isKey } from './pitch';
+import { scales } from './scales';
+import type { EngineEvent } from './events';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InputSource = 'click' | 'shift-click' | 'mic' | 'midi' | 'autoplay';
+
+// A chord's function is only given when it isn't its root's usual one (V/x)
+export type SessionEvent =
+  | { time: number; type: 'note'; degree: number; source: InputSource }
+  | { time: number; type: 'chord'; root: number; degrees: number[]; function?: HarmonicFunction; source: InputSource }
+  | { time: number; type: 'key'; key: string };  // A followed modulation
+
+export type Session = {
+  version: 1;
+  key: string;            // Key at the start (key events move it)
+  scale: string;          // Scale name, e.g. 'dorian'
+  events: SessionEvent[]; // time = ms since the recording started
+};
+
+// An input as the UI sees it, before it's stamped with a session time
+export type SessionInput =
+  | { type: 'note'; degree: number; source: InputSource }
+  | { type: 'chord'; root: number; degrees: number[]; function?: HarmonicFunction; source: InputSource };
+
+// Anything that plays the engine by itself (a MIDI keyboard, a fake port in
+// a test). Its inputs take the same path as clicks once started.
+export type InputDevice = {
+  name: string;
+  start(onInput: (input: SessionInput) => void): void;
+  stop(): void;
+};
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+export type Recorder = {
+  start: number;     // Clock time the recording began (ms)
+  session: Session;
+};
+
+export function startRecording(key: string, scale: string, start: number): Recorder {
+  return {
+    start,
+    session: { version: 1, key, scale, events: [] },
+  };
+}
+
+export function recordInput(recorder: Recorder, input: SessionInput, time: number): void {
+  recorder.session.events.push({ ...input, time: time - recorder.start });
+}
+
+export function recordKeyChange(recorder: Recorder, key: string, time: number): void {
+  recorder.session.events.push({ time: time - recorder.start, type: 'key', key });
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+export function serializeSession(session: Session): string {
+  return JSON.stringify(session, null, 2);
+}
+
+// Parse and sanity-check a session file (throws on anything unusable)
+export function parseSession(json: string): Session {
+  const data = JSON.parse(json);
+
+  if (!data || data.version !== 1 || !Array.isArray(data.events)) {
+    throw new Error('Not a harmonic playground session (expected version 1 with events)');
+  }
+  if (typeof data.key !== 'string' || typeof data.scale !== 'string') {
+    throw new Error('Session is missing its key or scale');
+  }
+  if (!isKey(data.key)) {
+    throw new Error(`Session is in an unknown key '${data.key}'`);
+  }
+
+  const scale = scales.find(s => s.name === data.scale);
+  if (!scale) {
+    throw new Error(`Session uses an unknown scale '${data.scale}'`);
+  }
+
+  // Degrees the session's scale has (diatonic or altered), like parseSequence
+  const isDegree = (degree: unknown) => typeof degree === 'number' && degree in scale.semitones;
+
+  for (const event of data.events) {
+    const timed = typeof event.time === 'number' && event.time >= 0;
+    const valid = event.type === 'note' ? isDegree(event.degree)
+      : event.type === 'key' ? typeof event.key === 'string' && isKey(event.key)
+      : event.type === 'chord' && isDegree(event.root) && Array.isArray(event.degrees)
+        && event.degrees.length > 0 && event.degrees.every(isDegree)
+        && (event.function === undefined || ['tonic', 'subdominant', 'dominant'].includes(event.function));
+    if (!timed || !valid) {
+      throw new Error(`Invalid session event: ${JSON.stringify(event)}`);
+    }
+  }
+
+  return data as Session;
+}
+
+// A typed-in sequence (the simulator's arguments, the WAV render's prompt):
+// '7', '4.5@1.25', '5+7+2@2' → session events (ms), untimed ones `interval` apart.
+// A token is a degree (4.5 = ♯4) or a chord of '+'-joined degrees, root first.
+export function parseSequence(tokens: string[], interval: number): SessionEvent[] {
+  let time = -interval;
+
+  return tokens.map(token => {
+    const [notes, at] = token.split('@');
+    time = at !== undefined ? Number(at) : time + interval;
+    const degrees = notes.split('+').map(Number);
+
+    if (!Number.isFinite(time) || degrees.some(degree => !(degree in config.scale.semitones))) {
+      throw new Error(`Can't read '${token}' (expected e.g. 7, 4.5@1.25 or 5+7+2@2)`);
+    }
+
+    const ms = Math.round(time * 1000);
+    return degrees.length === 1
+      ? { time: ms, type: 'note', degree: degrees[0], source: 'click' }
+      : { time: ms, type: 'chord', root: degrees[0], degrees, source: 'shift-click' };
+  });
+}
+
+export function downloadSession(session: Session, filename: string): void {
+  downloadBlob(new Blob([serializeSession(session)], { type: 'application/json' }), filename);
+}
+
+// Save a file through a temporary link (sessions here, MIDI and WAV in export.ts)
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Some browsers cancel the download if the URL goes away straight after the click
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+export type SimulatedStep = {
+  event: SessionEvent;
+  key: string;            // Key after the event
+  state: State;           // After the event
+  harmony: HarmonyState;
+  events: EngineEvent[];  // What the engine announced for it
+};
+
+// Run a session through the pure engine, in the active scale, with no sound
+// or timers. Decay between inputs is one step from the previous input - the
+// same computation a live replay makes - so results match it exactly.
+export function simulateSession(session: Session): SimulatedStep[] {
+  let state = createInitialState();
+  let harmony = createHarmonyState();
+  let key = session.key;
+  let lastTime = 0;
+  const steps: SimulatedStep[] = [];
+
+  for (const event of session.events) {
+    const elapsed = (event.time - lastTime) / 1000;
+    state = decay(state, elapsed).state;
+    harmony = decayHarmony(harmony, elapsed);
+    lastTime = event.time;
+
+    let events: EngineEvent[] = [];
+    if (event.type === 'note') {
+      const transition = playNote(state, event.degree);
+      state = transition.state;
+      events = transition.events;
+    } else if (event.type === 'key') {
+      ({ state, harmony } = modulate(state, harmony, key, event.key));
+      key = event.key;
+    } else {
+      const transition = playChordNotes(state, harmony, event.root, event.degrees, event.function);
+      state = transition.state;
+      harmony = transition.harmony;
+      events = transition.events;
+    }
+
+    steps.push({ event, key, state, harmony, events });
+  }
+
+  return steps;
+}
+
+// ============================================================================
+// PLAYER
+// ============================================================================
+
+// Schedule every event relative to `start`. Each callback gets the event's
+// exact scheduled time (not when the timer happened to fire), so the engine
+// sees the same intervals as the original performance.
+// Returns a function that cancels whatever hasn't played yet.
+export function replaySession(
+  session: Session,
+  start: number,
+  onEvent: (event: SessionEvent, time: number) => void,
+  onDone?: () => void
+): () => void {
+  const timers: number[] = [];
+
+  for (const event of session.events) {
+    const time = start + event.time;
+    timers.push(window.setTimeout(() => onEvent(event, time), Math.max(0, time - performance.now())));
+  }
+
+  const lastTime = session.events.length > 0
+    ? start + session.events[session.events.length - 1].time
+    : start;
+  timers.push(window.setTimeout(() => onDone?.(), Math.max(0, lastTime - performance.now())));
+
+  return () => timers.forEach(timer => clearTimeout(timer));
+}
@@ -0,0 +1,257 @@
+// Simulate - Headless engine runs from the command line
+// Steps a degree sequence (or a recorded session) through playNote and decay
+// at a fixed frame rate and prints the tension timeline, so tuning changes
+// can be compared as numbers instead of by eye
+//
+//   npm run simulate -- 7 1 4 3@1.5 5+7+2@2
+//   npm run simulate -- --session take.json --format csv --fps 60
+//   npm run simulate -- 4 3 --decay-curve half-life --half-life 2
+//
+// A token is a degree (4.5 = ♯4) or a chord of '+'-joined degrees, root first,
+// optionally '@seconds'. Untimed tokens follow the previous one by --interval.
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  createInitialState,
+  playNote,
+  decay,
+  getTotalTension,
+  setScale,
+  config,
+  type DecayCurve,
+  type State,
+  type Resolution,
+} from './engine';
+import { createHarmonyState, decayHarmony, playChordNotes, type Cadence, type HarmonyState } from './harmony';
+import { scales } from './scales';
+import { modulate } from './tonality';
+import { parseSession, parseSequence, type Session } from './session';
+import type { EngineEvent } from './events';
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+type Frame = {
+  time: number;                      // Seconds
+  total: number;                     // getTotalTension, 0-1
+  progression: number;               // Harmonic progression tension
+  lastNote: number | null;
+  direction: State['direction'];
+  momentum: number;
+  tensions: Record<string, number>;  // Per degree name, every degree of the scale
+};
+
+type Timeline = {
+  key: string;
+  scale: string;
+  fps: number;
+  frames: Frame[];
+  resolutions: (Resolution & { time: number })[];
+  cadences: (Cadence & { time: number })[];
+};
+
+// Inputs land at their exact times (decay is the same in one step or many),
+// frames sample the state every 1/fps seconds until `tail` after the last one
+function simulateTimeline(session: Session, fps: number, tail: number): Timeline {
+  const timeline: Timeline = {
+    key: session.key,
+    scale: session.scale,
+    fps,
+    frames: [],
+    resolutions: [],
+    cadences: [],
+  };
+
+  let state = createInitialState();
+  let harmony = createHarmonyState();
+  let key = session.key;
+  let now = 0;
+
+  const advance = (to: number) => {
+    state = decay(state, to - now).state;
+    harmony = decayHarmony(harmony, to - now);
+    now = to;
+  };
+
+  const collect = (time: number, events: EngineEvent[]) => {
+    for (const event of events) {
+      if (event.type === 'resolution') timeline.resolutions.push({ ...event.resolution, time });
+      if (event.type === 'cadence') timeline.cadences.push({ ...event.cadence, time });
+    }
+  };
+
+  const events = [...session.events].sort((a, b) => a.time - b.time);
+  const end = (events.length > 0 ? events[events.length - 1].time / 1000 : 0) + tail;
+  const frameCount = Math.floor(end * fps) + 1;
+  let next = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const time = frame / fps;
+
+    while (next < events.length && events[next].time / 1000 <= time) {
+      const event = events[next++];
+      advance(event.time / 1000);
+
+      if (event.type === 'note') {
+        const transition = playNote(state, event.degree);
+        state = transition.state;
+        collect(now, transition.events);
+      } else if (event.type === 'key') {
+        ({ state, harmony } = modulate(state, harmony, key, event.key));
+        key = event.key;
+      } else {
+        const transition = playChordNotes(state, harmony, event.root, event.degrees, event.function);
+        state = transition.state;
+        harmony = transition.harmony;
+        collect(now, transition.events);
+      }
+    }
+
+    advance(time);
+    timeline.frames.push(sampleFrame(time, state, harmony));
+  }
+
+  return timeline;
+}
+
+function sampleFrame(time: number, state: State, harmony: HarmonyState): Frame {
+  const tensions: Record<string, number> = {};
+  for (const degree of allDegrees()) {
+    tensions[config.scale.degreeNames[degree]] = round(state.tensions.get(degree) ?? 0);
+  }
+
+  return {
+    time: round(time),
+    total: round(getTotalTension(state)),
+    progression: round(harmony.progressionTension),
+    lastNote: state.lastNote,
+    direction: state.direction,
+    momentum: round(state.momentum),
+    tensions,
+  };
+}
+
+function allDegrees(): number[] {
+  return [...config.scale.enabledDegrees, ...config.scale.alteredDegrees].sort((a, b) => a - b);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function framesToCsv(timeline: Timeline): string {
+  const names = allDegrees().map(degree => config.scale.degreeNames[degree]);
+  const rows = timeline.frames.map(frame => [
+    frame.time,
+    frame.total,
+    frame.progression,
+    frame.lastNote ?? '',
+    frame.direction,
+    frame.momentum,
+    ...names.map(name => frame.tensions[name]),
+  ].join(','));
+
+  return [['time', 'total', 'progression', 'lastNote', 'direction', 'momentum', ...names].join(','), ...rows].join('\n');
+}
+
+function resolutionsToCsv(timeline: Timeline): string {
+  const rows = [
+    ...timeline.resolutions.map(r => [r.time, 'resolution', r.from, r.to, round(r.released)]),
+    ...timeline.cadences.map(c => [c.time, `${c.type} cadence`, c.from, c.to, round(c.released)]),
+  ].sort((a, b) => Number(a[0]) - Number(b[0]));
+
+  return [['time', 'kind', 'from', 'to', 'released'].join(','), ...rows.map(row => row.join(','))].join('\n');
+}
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+const decayCurves: DecayCurve[] = ['linear', 'exponential', 'half-life'];
+
+// A number option, above `min` (or at least it, with `orEqual`)
+function numberOption(name: string, value: string, min: number, orEqual: boolean = false): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || (number === min && !orEqual)) {
+    throw new Error(`--${name} must be a number ${orEqual ? 'of at least' : 'above'} ${min}, not '${value}'`);
+  }
+  return number;
+}
+
+function choiceOption<T extends string>(name: string, value: string, choices: T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`--${name} must be one of ${choices.join(', ')}, not '${value}'`);
+  }
+  return value as T;
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      session: { type: 'string' },
+      key: { type: 'string', default: config.key },
+      scale: { type: 'string', default: config.scale.name },
+      interval: { type: 'string', default: '0.5' },
+      fps: { type: 'string', default: '30' },
+      tail: { type: 'string', default: '2' },
+      format: { type: 'string', default: 'json' },
+      table: { type: 'string', default: 'frames' },
+      'decay-curve': { type: 'string' },
+      'decay-rate': { type: 'string' },
+      'half-life': { type: 'string' },
+      'max-tension': { type: 'string' },
+      hold: { type: 'boolean' },
+    },
+  });
+
+  // Everything is checked before anything runs
+  const interval = numberOption('interval', values.interval!, 0, true);
+  const fps = numberOption('fps', values.fps!, 0);
+  const tail = numberOption('tail', values.tail!, 0, true);
+  const format = choiceOption('format', values.format!, ['json', 'csv']);
+  const table = choiceOption('table', values.table!, ['frames', 'resolutions']);
+
+  // Tuning under test
+  if (values['decay-curve'] !== undefined) config.decayCurve = choiceOption('decay-curve', values['decay-curve'], decayCurves);
+  if (values['decay-rate'] !== undefined) config.decayRate = numberOption('decay-rate', values['decay-rate'], 0);
+  if (values['half-life'] !== undefined) config.halfLife = numberOption('half-life', values['half-life'], 0);
+  if (values['max-tension'] !== undefined) config.maxTension = numberOption('max-tension', values['max-tension'], 0);
+  if (values.hold) config.holdForNoteLength = true;
+
+  const fromFile = values.session ? parseSession(readFileSync(values.session, 'utf8')) : null;
+  const scaleName = fromFile?.scale ?? values.scale!;
+  const scale = scales.find(s => s.name === scaleName);
+  if (!scale) {
+    throw new Error(`Unknown scale '${scaleName}' (one of ${scales.map(s => s.name).join(', ')})`);
+  }
+  setScale(scale);
+
+  const session: Session = fromFile ?? {
+    version: 1,
+    key: values.key!,
+    scale: scale.name,
+    events: parseSequence(positionals, interval),
+  };
+
+  const timeline = simulateTimeline(session, fps, tail);
+
+  if (format === 'csv') {
+    console.log(table === 'resolutions' ? resolutionsToCsv(timeline) : framesToCsv(timeline));
+  } else {
+    console.log(JSON.stringify(timeline, null, 2));
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -0,0 +1,178 @@
+// Sonify - Hearing the tension, not just seeing it
+// Everything the synth plays passes a bus that follows the harmonic state:
+// brighter, louder, wetter and slightly out of tune as tension rises, dark
+// and still at rest. Notes on tense degrees are detuned so they beat, and a
+// resolution lets out a soft falling breath sized by what it released.
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export type SonificationSettings = {
+  enabled: boolean;
+  maxDetune: number;  // Cents a note on a fully tense degree is pulled off pitch
+  smoothing: number;  // Seconds for the bus to follow a change in tension
+};
+
+export const sonificationSettings: SonificationSettings = {
+  enabled: true,
+  maxDetune: 12,
+  smoothing: 0.15,
+};
+
+// What the bus follows - total tension and the tensest single degree, both 0-1
+export type TensionLevel = {
+  total: number;
+  peak: number;
+};
+
+// Bus settings at rest and at full tension
+const REST = { cutoff: 1400, gain: 0.75, send: 0.08, chorus: 0 };
+const TENSE = { cutoff: 9000, gain: 1, send: 0.3, chorus: 0.35 };
+
+// Neutral: what the bus sounds like with sonification off
+const NEUTRAL = { cutoff: 20000, gain: 1, send: 0, chorus: 0 };
+
+// ============================================================================
+// BUS
+// ============================================================================
+
+export type TensionBus = {
+  input: AudioNode;
+  output: AudioNode;  // Dry, chorus, reverb and release together - the synth limits it
+  update(level: TensionLevel, at?: number): void;
+  release(amount: number, at?: number): void;  // The resolution breath, amount 0-1
+};
+
+//   input → low-pass → dynamics → output
+//                     ├→ chorus (modulated delay) ↗
+//                     └→ reverb send → convolver ↗
+// Connect it with createSynth, which puts it ahead of its limiter.
+// `random` fills the reverb and noise buffers - seed it for a repeatable render.
+export function createTensionBus(context: BaseAudioContext, random: () => number = Math.random): TensionBus {
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.Q.value = 0.5;
+  filter.frequency.value = REST.cutoff;
+
+  const output = context.createGain();
+  const dynamics = context.createGain();
+  dynamics.gain.value = REST.gain;
+  filter.connect(dynamics);
+  dynamics.connect(output);
+
+  // Chorus: a copy whose delay wobbles a few times a second, beating against the dry sound
+  const chorusDelay = context.createDelay(0.05);
+  chorusDelay.delayTime.value = 0.015;
+  const wobble = context.createOscillator();
+  const wobbleDepth = context.createGain();
+  wobble.frequency.value = 4.5;
+  wobbleDepth.gain.value = 0.002;
+  wobble.connect(wobbleDepth);
+  wobbleDepth.connect(chorusDelay.delayTime);
+  wobble.start();
+
+  const chorus = context.createGain();
+  chorus.gain.value = REST.chorus;
+  dynamics.connect(chorusDelay);
+  chorusDelay.connect(chorus);
+  chorus.connect(output);
+
+  const reverb = context.createConvolver();
+  reverb.buffer = createImpulse(context, 2.5, random);
+  const send = context.createGain();
+  send.gain.value = REST.send;
+  dynamics.connect(send);
+  send.connect(reverb);
+  reverb.connect(output);
+
+  // One second of noise for the release breath, shared by every resolution
+  const noise = createNoise(context, 1, random);
+
+  return {
+    input: filter,
+    output,
+
+    update(level, at = context.currentTime) {
+      const target = sonificationSettings.enabled ? busAt(level) : NEUTRAL;
+      const { smoothing } = sonificationSettings;
+
+      filter.frequency.setTargetAtTime(target.cutoff, at, smoothing);
+      dynamics.gain.setTargetAtTime(target.gain, at, smoothing);
+      send.gain.setTargetAtTime(target.send, at, smoothing);
+      chorus.gain.setTargetAtTime(target.chorus, at, smoothing);
+    },
+
+    release(amount, at = context.currentTime) {
+      if (!sonificationSettings.enabled || amount <= 0) return;
+
+      // Filtered noise sweeping down - bigger releases are louder and longer
+      const length = 0.4 + amount * 0.6;
+      const source = context.createBufferSource();
+      const band = context.createBiquadFilter();
+      const gain = context.createGain();
+
+      source.buffer = noise;
+      band.type = 'bandpass';
+      band.Q.value = 1.5;
+      band.frequency.setValueAtTime(3000, at);
+      band.frequency.exponentialRampToValueAtTime(300, at + length);
+
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(0.04 + amount * 0.12, at + 0.03);
+      gain.gain.exponentialRampToValueAtTime(0.0001, at + length);
+
+      source.connect(band);
+      band.connect(gain);
+      gain.connect(dynamics);
+      gain.connect(send);  // Extra reverb, so it blooms as it goes
+      source.start(at);
+      source.stop(at + length);
+      source.onended = () => gain.disconnect();
+    },
+  };
+}
+
+// Total tension drives brightness, level and space; the tensest degree the beating
+function busAt({ total, peak }: TensionLevel): typeof REST {
+  const mix = (from: number, to: number, t: number) => from + (to - from) * t;
+  return {
+    cutoff: REST.cutoff * Math.pow(TENSE.cutoff / REST.cutoff, total),  // Even steps to the ear
+    gain: mix(REST.gain, TENSE.gain, total),
+    send: mix(REST.send, TENSE.send, total),
+    chorus: mix(REST.chorus, TENSE.chorus, peak),
+  };
+}
+
+// Cents to pull a note off pitch for a degree's tension (0-1). The sign
+// alternates with `count` (notes so far, tones in a chord), so tense notes
+// struck together beat against each other.
+export function tensionDetune(tension: number, count: number): number {
+  if (!sonificationSettings.enabled) return 0;
+  return (count % 2 === 0 ? 1 : -1) * tension * sonificationSettings.maxDetune;
+}
+
+// ============================================================================
+// BUFFERS
+// ============================================================================
+
+function createNoise(context: BaseAudioContext, seconds: number, random: () => number): AudioBuffer {
+  const buffer = context.createBuffer(1, Math.round(context.sampleRate * seconds), context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = random() * 2 - 1;
+  }
+  return buffer;
+}
+
+// Stereo noise dying away exponentially - a plain, smooth room
+function createImpulse(context: BaseAudioContext, seconds: number, random: () => number): AudioBuffer {
+  const buffer = context.createBuffer(2, Math.round(context.sampleRate * seconds), context.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (random() * 2 - 1) * Math.pow(1 - i / data.length, 3);
+    }
+  }
+  return buffer;
+}
@@ -0,0 +1,207 @@
+// Synth - Voices with envelopes, a polyphony cap and a limited master bus
+// Every note starts and ends on an envelope (no clicks), at most MAX_VOICES
+// sound at once (the oldest make way), and the mix passes a limiter before
+// the speakers however fast anyone clicks
+
+// ============================================================================
+// ENVELOPE
+// ============================================================================
+
+// Times in seconds; sustain is a level (share of the note's peak)
+export type Envelope = {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+};
+
+// design.md §9: fast attack (~10ms), medium decay (~500ms including release)
+export const defaultEnvelope: Envelope = {
+  attack: 0.01,
+  decay: 0.3,
+  sustain: 0.5,
+  release: 0.25,
+};
+
+// ============================================================================
+// INSTRUMENTS
+// ============================================================================
+
+// How one note is made. The synth wraps whatever sources an instrument builds
+// in the envelope, and starts and stops them; see instruments.ts for presets.
+export type Instrument = {
+  name: string;
+  envelope: Envelope;
+  createSources(
+    context: BaseAudioContext,
+    frequency: number,
+    at: number,
+    destination: AudioNode
+  ): AudioScheduledSourceNode[];
+};
+
+// A bare sine - the playground's original sound
+export const sine: Instrument = {
+  name: 'sine',
+  envelope: defaultEnvelope,
+  createSources(context, frequency, at, destination) {
+    const osc = context.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(frequency, at);
+    osc.connect(destination);
+    return [osc];
+  },
+};
+
+// ============================================================================
+// VOICES
+// ============================================================================
+
+const MAX_VOICES = 24;
+const STEAL_FADE = 0.005;  // Seconds to silence a stolen voice
+
+export type NoteOptions = {
+  velocity?: number;         // Peak gain, 0-1
+  at?: number;               // Context time to start (default: now)
+  instrument?: Instrument;   // Default: sine
+};
+
+type Voice = {
+  id: number;
+  sources: AudioScheduledSourceNode[];
+  gain: GainNode;
+  start: number;
+  peak: number;
+  envelope: Envelope;
+  released: { at: number; level: number } | null;
+};
+
+export type Synth = {
+  context: BaseAudioContext;
+  output: GainNode;  // Master level, ahead of the limiter
+  noteOn(frequency: number, options?: NoteOptions): number;  // Returns the voice id
+  noteOff(id: number, at?: number): void;
+  allNotesOff(): void;
+};
+
+// A synth playing into `destination` through its own master bus. `effects`
+// (e.g. the tension bus) go between the master level and the limiter, so
+// nothing they add can clip. Works on any context, including an OfflineAudioContext.
+export function createSynth(
+  context: BaseAudioContext,
+  destination: AudioNode = context.destination,
+  effects?: { input: AudioNode; output: AudioNode }
+): Synth {
+  const output = context.createGain();
+  output.gain.value = 0.8;
+
+  // Brick-wall-ish limiter: stacked voices get squashed instead of clipping
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = -3;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.002;
+  limiter.release.value = 0.1;
+
+  if (effects) {
+    output.connect(effects.input);
+    effects.output.connect(limiter);
+  } else {
+    output.connect(limiter);
+  }
+  limiter.connect(destination);
+
+  let voices: Voice[] = [];
+  let nextId = 1;
+
+  const remove = (voice: Voice) => {
+    voices = voices.filter(v => v !== voice);
+  };
+
+  // Already-released voices go first, then the oldest still sounding
+  const steal = (at: number) => {
+    const victim = voices.find(v => v.released !== null) ?? voices[0];
+    remove(victim);
+    victim.gain.gain.cancelScheduledValues(at);
+    victim.gain.gain.setValueAtTime(levelAt(victim, at), at);
+    victim.gain.gain.linearRampToValueAtTime(0, at + STEAL_FADE);
+    victim.sources.forEach(source => source.stop(at + STEAL_FADE));
+  };
+
+  const synth: Synth = {
+    context,
+    output,
+
+    noteOn(frequency, options = {}) {
+      const at = Math.max(options.at ?? context.currentTime, context.currentTime);
+      const instrument = options.instrument ?? sine;
+      const { envelope } = instrument;
+      const peak = options.velocity ?? 0.3;
+
+      while (voices.length >= MAX_VOICES) {
+        steal(at);
+      }
+
+      const gain = context.createGain();
+
+      // Attack to peak, decay to sustain, then hold until noteOff
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(peak, at + envelope.attack);
+      gain.gain.linearRampToValueAtTime(peak * envelope.sustain, at + envelope.attack + envelope.decay);
+      gain.connect(output);
+
+      const sources = instrument.createSources(context, frequency, at, gain);
+      sources.forEach(source => source.start(at));
+
+      const voice: Voice = { id: nextId++, sources, gain, start: at, peak, envelope, released: null };
+      sources[0].onended = () => {
+        remove(voice);
+        gain.disconnect();
+      };
+      voices.push(voice);
+
+      return voice.id;
+    },
+
+    noteOff(id, at = context.currentTime) {
+      const voice = voices.find(v => v.id === id);
+      if (!voice || voice.released) return;
+
+      // Release from wherever the envelope has got to by then
+      const time = Math.max(at, context.currentTime);
+      const { release } = voice.envelope;
+      const level = levelAt(voice, time);
+      voice.released = { at: time, level };
+      voice.gain.gain.cancelScheduledValues(time);
+      voice.gain.gain.setValueAtTime(level, time);
+      voice.gain.gain.setTargetAtTime(0, time, release / 4);
+      voice.sources.forEach(source => source.stop(time + release));
+    },
+
+    allNotesOff() {
+      for (const voice of voices) {
+        synth.noteOff(voice.id);
+      }
+    },
+  };
+
+  return synth;
+}
+
+// Envelope level of a voice at a context time (attack and decay are linear,
+// release is exponential from wherever it started)
+function levelAt(voice: Voice, time: number): number {
+  const { attack, decay, sustain, release } = voice.envelope;
+  const elapsed = time - voice.start;
+
+  if (voice.released && time >= voice.released.at) {
+    return voice.released.level * Math.exp(-(time - voice.released.at) / (release / 4));
+  }
+
+  if (elapsed <= 0) return 0;
+  if (elapsed < attack) return voice.peak * elapsed / attack;
+  if (elapsed < attack + decay) {
+    return voice.peak * (1 - (1 - sustain) * (elapsed - attack) / decay);
+  }
+  return voice.peak * sustain;
+}
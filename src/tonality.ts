@@ -0,0 +1,179 @@
+// Tonality - Finding the key from what's being played
+// Recent pitches are weighted by how recent they are and correlated against
+// the Krumhansl-Kessler key profiles; the best of the 24 keys is the estimate.
+// Following a modulation re-reads the same pitches as degrees of the new key.
+
+import { config, homeness, type State } from './engine';
+import { degreeAtSemitone, type Scale } from './scales';
+import { getChordFunction, type HarmonyState } from './harmony';
+import { keyPitchClass, pitchClassKey, degreePitchClass, isEnharmonic } from './pitch';
+
+// ============================================================================
+// KEY PROFILES (Krumhansl & Kessler 1982)
+// ============================================================================
+
+// How well each pitch class above the tonic fits the key, from listener ratings
+const majorProfile = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const minorProfile = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, x) => sum + x, 0) / a.length;
+  const meanB = b.reduce((sum, x) => sum + x, 0) / b.length;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+// ============================================================================
+// TRACKER
+// ============================================================================
+
+const MEMORY_NOTES = 32;           // Pitches remembered
+const MEMORY_HALF_LIFE = 8000;     // ms - a pitch this old counts half
+const FULL_EVIDENCE = 6;           // Weighted pitches needed for full confidence
+const MODULATION_CONFIDENCE = 0.6; // A new centre must be at least this sure...
+const MODULATION_STREAK = 3;       // ...for this many inputs in a row
+
+export type KeyTracker = {
+  pitches: { pitchClass: number; time: number }[];
+  candidate: string | null;  // New centre the evidence is drifting toward
+  streak: number;            // Consecutive inputs agreeing on it
+};
+
+export type KeyEstimate = {
+  key: string;               // Tonic, e.g. 'A'
+  mode: 'major' | 'minor';
+  confidence: number;        // 0-1: profile fit × amount of evidence
+};
+
+export function createKeyTracker(): KeyTracker {
+  return { pitches: [], candidate: null, streak: 0 };
+}
+
+export function observePitches(tracker: KeyTracker, pitchClasses: number[], time: number): KeyTracker {
+  const pitches = [...tracker.pitches, ...pitchClasses.map(pitchClass => ({ pitchClass, time }))];
+  return { ...tracker, pitches: pitches.slice(-MEMORY_NOTES) };
+}
+
+export function estimateKey(tracker: KeyTracker, time: number): KeyEstimate | null {
+  const histogram = new Array(12).fill(0);
+  let evidence = 0;
+  for (const { pitchClass, time: played } of tracker.pitches) {
+    const weight = Math.pow(0.5, Math.max(0, time - played) / MEMORY_HALF_LIFE);
+    histogram[pitchClass] += weight;
+    evidence += weight;
+  }
+  if (evidence === 0) return null;
+
+  let best: KeyEstimate | null = null;
+  let bestFit = -Infinity;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // Profile rotated so index = pitch class
+    for (const [mode, profile] of [['major', majorProfile], ['minor', minorProfile]] as const) {
+      const rotated = histogram.map((_, pc) => profile[(pc - tonic + 12) % 12]);
+      const fit = correlation(histogram, rotated);
+      if (fit > bestFit) {
+        bestFit = fit;
+        best = { key: pitchClassKey(tonic), mode, confidence: 0 };
+      }
+    }
+  }
+
+  best!.confidence = Math.max(0, bestFit) * Math.min(1, evidence / FULL_EVIDENCE);
+  return best;
+}
+
+// The estimate as a tonic for the active scale: a minor-third scale (minor,
+// dorian…) centres on the minor reading, the others on its relative major
+export function centreForScale(estimate: KeyEstimate, scale: Scale): string {
+  const tonic = keyPitchClass(estimate.key);
+  const minorThird = scale.semitones[3] === 3;
+
+  if (estimate.mode === 'minor' && !minorThird) return pitchClassKey(tonic + 3);
+  if (estimate.mode === 'major' && minorThird) return pitchClassKey(tonic + 9);
+  return estimate.key;
+}
+
+// Only move once the same new centre has won confidently several inputs in
+// a row, so a passing chromatic note doesn't drag the whole key along
+export function nextModulation(
+  tracker: KeyTracker,
+  estimate: KeyEstimate | null,
+  currentKey: string
+): { tracker: KeyTracker; key: string | null } {
+  const centre = estimate && estimate.confidence >= MODULATION_CONFIDENCE
+    ? centreForScale(estimate, config.scale)
+    : null;
+
+  if (!centre || isEnharmonic(centre, currentKey)) {
+    return { tracker: { ...tracker, candidate: null, streak: 0 }, key: null };
+  }
+
+  const streak = centre === tracker.candidate ? tracker.streak + 1 : 1;
+  if (streak < MODULATION_STREAK) {
+    return { tracker: { ...tracker, candidate: centre, streak }, key: null };
+  }
+
+  return { tracker: { ...tracker, candidate: null, streak: 0 }, key: centre };
+}
+
+// ============================================================================
+// MODULATION
+// ============================================================================
+
+// Degree the same pitch is in another key (active scale)
+function pivotDegree(degree: number, fromKey: string, toKey: string): number | null {
+  const semitone = degreePitchClass(degree, fromKey) - keyPitchClass(toKey);
+  return degreeAtSemitone(semitone, config.scale);
+}
+
+// Re-centre state on a new key instead of wiping it. Every pitch carries its
+// tension across as the pivot it is in the new key, scaled by how unstable it
+// is there: a tendency tone that lands on a stable degree lets go, one that
+// stays a tendency tone keeps its pull.
+export function modulate(
+  state: State,
+  harmony: HarmonyState,
+  fromKey: string,
+  toKey: string
+): { state: State; harmony: HarmonyState } {
+  const tensions = new Map<number, number>();
+  for (const [degree, tension] of state.tensions) {
+    const pivot = pivotDegree(degree, fromKey, toKey);
+    if (pivot === null || homeness[pivot] >= 0.5) continue;  // Stable degrees hold no tension
+
+    const carried = tension * (1 - homeness[pivot]) / Math.max(0.01, 1 - homeness[degree]);
+    if (carried >= 0.01) {
+      // Two old degrees can land on the same new one - their tension adds up
+      tensions.set(pivot, Math.min(config.maxTension, (tensions.get(pivot) ?? 0) + carried));
+    }
+  }
+
+  const sounding = new Map<number, number>();
+  for (const [degree, remaining] of state.sounding) {
+    const pivot = pivotDegree(degree, fromKey, toKey);
+    if (pivot !== null) sounding.set(pivot, remaining);
+  }
+
+  const lastNote = state.lastNote !== null ? pivotDegree(state.lastNote, fromKey, toKey) : null;
+  const pivotRoot = harmony.lastRoot !== null ? pivotDegree(harmony.lastRoot, fromKey, toKey) : null;
+  const lastRoot = pivotRoot !== null && Number.isInteger(pivotRoot) ? pivotRoot : null;
+
+  return {
+    state: { ...state, lastNote, tensions, sounding },
+    harmony: {
+      ...harmony,
+      lastRoot,
+      lastFunction: lastRoot !== null ? getChordFunction(lastRoot) : null,
+      lastTarget: lastRoot !== null && harmony.lastTarget !== null ? pivotDegree(harmony.lastTarget, fromKey, toKey) : null,
+    },
+  };
+}
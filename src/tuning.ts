@@ -0,0 +1,80 @@
+// Tuning - How far apart the semitones really are
+// Equal temperament, or a tuning pure relative to the current tonic (just,
+// Pythagorean, quarter-comma meantone), plus the A4 reference. pitch.ts turns
+// these into frequencies.
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export type TuningName = 'equal' | 'just' | 'pythagorean' | 'meantone';
+
+export type TuningSettings = {
+  tuning: TuningName;
+  reference: number;  // Hz of A4
+};
+
+export const tuningSettings: TuningSettings = {
+  tuning: 'equal',
+  reference: 440,
+};
+
+export const tuningNames: TuningName[] = ['equal', 'just', 'pythagorean', 'meantone'];
+
+// Common concert pitches, in the order Shift+U steps through them
+export const referencePitches = [440, 442, 443, 432, 415];
+
+// ============================================================================
+// INTERVALS
+// ============================================================================
+
+function ratioCents(ratio: number): number {
+  return 1200 * Math.log2(ratio);
+}
+
+// 5-limit just intonation: small-number ratios above the tonic
+const justRatios = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8];
+
+// A chain of identical fifths from the tonic, folded into one octave.
+// `flats` is how many fifths the chain reaches below the tonic.
+function chainOfFifths(fifth: number, flats: number): number[] {
+  return Array.from({ length: 12 }, (_, semitone) => {
+    let steps = (semitone * 7) % 12;
+    if (steps > 11 - flats) steps -= 12;
+    return (((steps * fifth) % 1200) + 1200) % 1200;
+  });
+}
+
+// Cents above the tonic for each semitone of the octave
+const tuningCents: Record<TuningName, number[]> = {
+  equal: Array.from({ length: 12 }, (_, semitone) => semitone * 100),
+  just: justRatios.map(ratioCents),
+  pythagorean: chainOfFifths(ratioCents(3 / 2), 5),  // D♭ … F♯
+  meantone: chainOfFifths(ratioCents(5) / 4, 3),     // E♭ … G♯, pure major thirds
+};
+
+// Cents above the tonic for a (possibly fractional or multi-octave) semitone
+// count; fractions fall between the neighbouring semitones
+export function semitoneCents(semitones: number): number {
+  const cents = tuningCents[tuningSettings.tuning];
+  const octave = Math.floor(semitones / 12);
+  const within = semitones - octave * 12;
+  const lower = Math.floor(within);
+  const upper = lower === 11 ? 1200 : cents[lower + 1];
+
+  return octave * 1200 + cents[lower] + (upper - cents[lower]) * (within - lower);
+}
+
+// The reverse: cents above the tonic back to a semitone count, so a pure
+// major third reads as exactly 4 in just intonation
+export function centsSemitones(cents: number): number {
+  const table = tuningCents[tuningSettings.tuning];
+  const octave = Math.floor(cents / 1200);
+  const within = cents - octave * 1200;
+
+  let lower = 0;
+  while (lower < 11 && table[lower + 1] <= within) lower++;
+  const upper = lower === 11 ? 1200 : table[lower + 1];
+
+  return octave * 12 + lower + (within - table[lower]) / (upper - table[lower]);
+}
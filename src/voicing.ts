@@ -0,0 +1,114 @@
+// Voicing - Where a chord's notes actually sit
+// A chord is a set of degrees; a voicing picks an octave for each one
+// (semitones from the key's root, 0 = the tonic in the middle octave).
+// Smooth mode picks whichever voicing moves least from the previous chord.
+
+import { config } from './engine';
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export type Spread = 'close' | 'open';
+
+export type VoicingSettings = {
+  inversion: number;  // 0 = root position, 1 = first inversion…
+  spread: Spread;     // Open = drop 2: second voice from the top goes down an octave
+  bass: boolean;      // Double the root an octave or so below
+  smooth: boolean;    // Nearest voicing to the previous chord (inversion ignored)
+};
+
+export const voicingSettings: VoicingSettings = {
+  inversion: 0,
+  spread: 'close',
+  bass: false,
+  smooth: false,
+};
+
+// Chords are kept around the middle: root position roots sit from F#3 to F4
+// (relative to C), so IV and V are neighbours instead of a jump apart
+const HIGHEST_ROOT = 6;
+
+// ============================================================================
+// VOICING
+// ============================================================================
+
+// Semitones (from the key's root) for each chord tone, lowest first.
+// `degrees` starts with the root; `previous` is the last chord's voicing.
+export function voiceChord(
+  degrees: number[],
+  settings: VoicingSettings = voicingSettings,
+  previous: number[] | null = null
+): number[] {
+  const tones = settings.smooth && previous
+    ? nearestVoicing(degrees, settings.spread, previous)
+    : spread(invert(closePosition(degrees), settings.inversion), settings.spread);
+
+  return settings.bass ? [bassNote(degrees[0], tones), ...tones] : tones;
+}
+
+// Each tone stacked just above the one before, root first
+function closePosition(degrees: number[]): number[] {
+  const rootSemitone = config.scale.semitones[degrees[0]];
+  const tones = [rootSemitone > HIGHEST_ROOT ? rootSemitone - 12 : rootSemitone];
+
+  for (const degree of degrees.slice(1)) {
+    const below = tones[tones.length - 1];
+    const above = (((config.scale.semitones[degree] - below) % 12) + 12) % 12 || 12;
+    tones.push(below + above);
+  }
+  return tones;
+}
+
+// Move the lowest tone up an octave, once per inversion, keeping the chord
+// in the same register (the bottom never climbs more than half an octave)
+function invert(tones: number[], inversion: number): number[] {
+  let inverted = [...tones];
+  for (let i = 0; i < inversion % tones.length; i++) {
+    const [lowest, ...rest] = inverted;
+    inverted = [...rest, lowest + 12];
+  }
+
+  return inverted[0] - tones[0] > 6 ? inverted.map(t => t - 12) : inverted;
+}
+
+function spread(tones: number[], style: Spread): number[] {
+  if (style === 'close' || tones.length < 3) return tones;
+
+  const dropped = [...tones];
+  dropped[dropped.length - 2] -= 12;
+  return dropped.sort((a, b) => a - b);
+}
+
+// The root again, under the lowest voice (an octave down in root position)
+function bassNote(root: number, tones: number[]): number {
+  let bass = config.scale.semitones[root];
+  while (bass >= tones[0]) bass -= 12;
+  return bass;
+}
+
+// Every inversion, an octave either way, scored by total voice movement
+function nearestVoicing(degrees: number[], style: Spread, previous: number[]): number[] {
+  const close = closePosition(degrees);
+  let best = close;
+  let bestDistance = Infinity;
+
+  for (let inversion = 0; inversion < degrees.length; inversion++) {
+    for (const shift of [-12, 0, 12]) {
+      const candidate = spread(invert(close, inversion), style).map(t => t + shift);
+      if (candidate[0] < -12 || candidate[0] > 12) continue;  // Stay in a sensible register
+
+      const distance = movement(previous, candidate);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
+
+// How far the voices have to move: each new tone to its nearest old one
+function movement(from: number[], to: number[]): number {
+  return to.reduce((sum, tone) => sum + Math.min(...from.map(f => Math.abs(f - tone))), 0);
+}